@@ -2,7 +2,12 @@ import { useEffect, useState, useRef } from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import { HomePage } from './pages/HomePage';
 import WebSocketTest from './pages/WebSocketTest';
-import { Toaster } from 'react-hot-toast';
+import WallPage from './pages/WallPage';
+import toast, { Toaster } from 'react-hot-toast';
+import socketService from './services/socketService';
+import { ConnectionBanner } from './components/ConnectionBanner';
+
+const AUTH_TOAST_ID = 'socket-auth-required';
 
 function App() {
   const [isDarkMode, setIsDarkMode] = useState<boolean | null>(null);
@@ -14,6 +19,34 @@ function App() {
     socketInitialized.current = true;
   }, []);
 
+  // The backend refused the socket's credentials; reconnecting only helps after a new sign-in
+  useEffect(() => {
+    const handleAuthRequired = () => {
+      toast.error((t) => (
+        <span className="flex items-center gap-3">
+          Your session has expired. Sign in again, then reconnect.
+          <button
+            onClick={() => {
+              toast.dismiss(t.id);
+              socketService.reauthenticate();
+            }}
+            className="px-2 py-1 rounded bg-blue-600 text-white text-sm hover:bg-blue-700"
+          >
+            Reconnect
+          </button>
+        </span>
+      ), { id: AUTH_TOAST_ID, duration: Infinity });
+    };
+    const handleOpen = () => toast.dismiss(AUTH_TOAST_ID);
+
+    socketService.on('auth.required', handleAuthRequired);
+    socketService.on('open', handleOpen);
+    return () => {
+      socketService.off('auth.required', handleAuthRequired);
+      socketService.off('open', handleOpen);
+    };
+  }, []);
+
   // Initialize dark mode based on user preference or saved setting
   useEffect(() => {
     // First check localStorage
@@ -87,10 +120,12 @@ function App() {
         },
       }}
     />
+    <ConnectionBanner />
     <Router>
       <Routes>
         <Route path="/" element={<HomePage />} />
         <Route path="/test" element={<WebSocketTest />} />
+        <Route path="/wall" element={<WallPage />} />
         
       </Routes>
     </Router>
@@ -0,0 +1,356 @@
+import { useEffect, useRef, useState } from 'react';
+import { ArrowUpRight, MousePointer2, Square, Trash2, Type } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { useContainedRect } from '../hooks/useContainedRect';
+import { useAnnotationStore } from '../store/annotationStore';
+import type { Annotation, AnnotationKind, AnnotationPoint } from '../types/annotation';
+import type { ZoomState } from '../types/renderer';
+import { createSessionId } from '../utils/streamUtils';
+import { isZoomed, zoomTransform } from '../utils/zoom';
+
+type AnnotationTool = 'select' | AnnotationKind;
+
+interface AnnotationLayerProps {
+  streamKey: string;
+  // Size of the stream's frames, annotations sit on the letterboxed picture
+  frameWidth: number;
+  frameHeight: number;
+  // Annotations follow the picture when it is zoomed
+  zoom: ZoomState;
+  // Shows the toolbar and takes over the pointer; otherwise annotations are only shown
+  editing: boolean;
+  onDone: () => void;
+}
+
+// A drag in progress: drawing a new arrow or box, or moving an annotation
+type Drag =
+  | { type: 'draw'; kind: 'arrow' | 'box'; start: AnnotationPoint }
+  | { type: 'move'; id: string; from: AnnotationPoint };
+
+const NO_ANNOTATIONS: Annotation[] = [];
+const COLORS = ['#ef4444', '#f59e0b', '#22c55e', '#3b82f6', '#ffffff'];
+const TOOLS: { tool: AnnotationTool; label: string; icon: LucideIcon }[] = [
+  { tool: 'select', label: 'Select and move (Delete removes)', icon: MousePointer2 },
+  { tool: 'arrow', label: 'Arrow', icon: ArrowUpRight },
+  { tool: 'box', label: 'Box', icon: Square },
+  { tool: 'text', label: 'Text', icon: Type },
+];
+const EXPIRY_CHOICES: { label: string; ms: number | null }[] = [
+  { label: 'Never', ms: null },
+  { label: 'After 5 minutes', ms: 5 * 60 * 1000 },
+  { label: 'After 1 hour', ms: 60 * 60 * 1000 },
+  { label: 'After 1 day', ms: 24 * 60 * 60 * 1000 },
+];
+// How often expired annotations are cleared away
+const PRUNE_MS = 5000;
+// Shorter drags are taken as clicks
+const MIN_DRAG = 0.01;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const shift = ([x, y]: AnnotationPoint, dx: number, dy: number): AnnotationPoint => [x + dx, y + dy];
+
+/**
+ * Operator markup over the player: arrows, boxes and text, kept per stream. Points are
+ * fractions of the frame, so annotations stay on the same spot of the picture whatever
+ * size the player is, and follow it when zoomed.
+ */
+export const AnnotationLayer = ({ streamKey, frameWidth, frameHeight, zoom, editing, onDone }: AnnotationLayerProps) => {
+  const [containerRef, picture] = useContainedRect<HTMLDivElement>(frameWidth, frameHeight);
+  const annotations = useAnnotationStore((state) => state.annotations[streamKey]) ?? NO_ANNOTATIONS;
+  const addAnnotation = useAnnotationStore((state) => state.addAnnotation);
+  const moveAnnotation = useAnnotationStore((state) => state.moveAnnotation);
+  const removeAnnotation = useAnnotationStore((state) => state.removeAnnotation);
+  const clearAnnotations = useAnnotationStore((state) => state.clearAnnotations);
+  const pruneExpired = useAnnotationStore((state) => state.pruneExpired);
+  const [tool, setTool] = useState<AnnotationTool>('arrow');
+  const [color, setColor] = useState(COLORS[0]);
+  const [expiryMs, setExpiryMs] = useState<number | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Previews while dragging; the store is only written once the pointer is let go
+  const [draft, setDraft] = useState<{ start: AnnotationPoint; end: AnnotationPoint } | null>(null);
+  const [offset, setOffset] = useState<{ id: string; dx: number; dy: number } | null>(null);
+  const dragRef = useRef<Drag | null>(null);
+
+  useEffect(() => {
+    if (!annotations.some((annotation) => annotation.expiresAt !== null)) return;
+    const timer = setInterval(() => pruneExpired(Date.now()), PRUNE_MS);
+    return () => clearInterval(timer);
+  }, [annotations, pruneExpired]);
+
+  useEffect(() => {
+    if (!editing) setSelectedId(null);
+  }, [editing]);
+
+  useEffect(() => {
+    if (!editing) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      if (event.key === 'Escape') {
+        if (selectedId) setSelectedId(null);
+        else onDone();
+      }
+      if ((event.key === 'Delete' || event.key === 'Backspace') && selectedId) {
+        event.preventDefault();
+        removeAnnotation(streamKey, selectedId);
+        setSelectedId(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [editing, selectedId, streamKey, removeAnnotation, onDone]);
+
+  const pointAt = (event: React.PointerEvent<SVGSVGElement> | React.MouseEvent<SVGSVGElement>): AnnotationPoint => {
+    // The bounding box includes the zoom transform, so this is a fraction of the frame either way
+    const rect = event.currentTarget.getBoundingClientRect();
+    return [
+      clamp((event.clientX - rect.left) / rect.width, 0, 1),
+      clamp((event.clientY - rect.top) / rect.height, 0, 1),
+    ];
+  };
+
+  const add = (kind: AnnotationKind, start: AnnotationPoint, end: AnnotationPoint, text = '') => {
+    const now = Date.now();
+    const annotation: Annotation = {
+      id: createSessionId(),
+      kind,
+      start,
+      end,
+      text,
+      color,
+      createdAt: now,
+      expiresAt: expiryMs === null ? null : now + expiryMs,
+    };
+    addAnnotation(streamKey, annotation);
+    setSelectedId(annotation.id);
+  };
+
+  const startDrag = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (!editing || event.button !== 0 || tool === 'text') return;
+    const point = pointAt(event);
+    if (tool === 'select') {
+      const id = (event.target as Element).closest('[data-annotation-id]')?.getAttribute('data-annotation-id') ?? null;
+      setSelectedId(id);
+      if (!id) return;
+      dragRef.current = { type: 'move', id, from: point };
+    } else {
+      dragRef.current = { type: 'draw', kind: tool, start: point };
+    }
+    event.currentTarget.setPointerCapture(event.pointerId);
+  };
+
+  const moveDrag = (event: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = pointAt(event);
+    if (drag.type === 'draw') {
+      setDraft({ start: drag.start, end: point });
+      return;
+    }
+    const annotation = annotations.find((candidate) => candidate.id === drag.id);
+    if (!annotation) return;
+    // Nothing is dragged off the frame
+    const xs = [annotation.start[0], annotation.end[0]];
+    const ys = [annotation.start[1], annotation.end[1]];
+    setOffset({
+      id: drag.id,
+      dx: clamp(point[0] - drag.from[0], -Math.min(...xs), 1 - Math.max(...xs)),
+      dy: clamp(point[1] - drag.from[1], -Math.min(...ys), 1 - Math.max(...ys)),
+    });
+  };
+
+  const endDrag = (event: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    dragRef.current = null;
+    if (drag.type === 'draw') {
+      setDraft(null);
+      const end = pointAt(event);
+      const width = Math.abs(end[0] - drag.start[0]);
+      const height = Math.abs(end[1] - drag.start[1]);
+      const tooSmall = drag.kind === 'box' ? width < MIN_DRAG || height < MIN_DRAG : Math.hypot(width, height) < MIN_DRAG;
+      if (!tooSmall) add(drag.kind, drag.start, end);
+      return;
+    }
+    const annotation = annotations.find((candidate) => candidate.id === drag.id);
+    if (annotation && offset?.id === drag.id) {
+      moveAnnotation(streamKey, drag.id, shift(annotation.start, offset.dx, offset.dy), shift(annotation.end, offset.dx, offset.dy));
+    }
+    setOffset(null);
+  };
+
+  const placeText = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (!editing || tool !== 'text') return;
+    const point = pointAt(event);
+    const text = window.prompt('Annotation text')?.trim();
+    if (text) add('text', point, point, text);
+  };
+
+  const clearAll = () => {
+    if (window.confirm('Delete all annotations on this stream?')) {
+      clearAnnotations(streamKey);
+      setSelectedId(null);
+    }
+  };
+
+  // Sizes follow the picture, so annotations look the same in a small player and in fullscreen
+  const strokeWidth = Math.max(2, picture.height / 180);
+  const fontSize = Math.max(12, picture.height / 22);
+  const toPixels = ([x, y]: AnnotationPoint, dx = 0, dy = 0): [number, number] => [
+    (x + dx) * picture.width,
+    (y + dy) * picture.height,
+  ];
+
+  const renderShape = (kind: AnnotationKind, start: AnnotationPoint, end: AnnotationPoint, shapeColor: string, text: string, dx = 0, dy = 0) => {
+    const [x1, y1] = toPixels(start, dx, dy);
+    const [x2, y2] = toPixels(end, dx, dy);
+
+    if (kind === 'text') {
+      return (
+        <text
+          x={x1}
+          y={y1}
+          fill={shapeColor}
+          fontSize={fontSize}
+          fontWeight={600}
+          dominantBaseline="hanging"
+          stroke="black"
+          strokeWidth={fontSize / 8}
+          paintOrder="stroke"
+        >
+          {text}
+        </text>
+      );
+    }
+
+    if (kind === 'box') {
+      const box = { x: Math.min(x1, x2), y: Math.min(y1, y2), width: Math.abs(x2 - x1), height: Math.abs(y2 - y1) };
+      return (
+        <>
+          <rect {...box} fill="none" stroke={shapeColor} strokeWidth={strokeWidth} />
+          {/* Wider than the visible line, so the outline is easy to grab */}
+          <rect {...box} fill="none" stroke="transparent" strokeWidth={strokeWidth * 5} />
+        </>
+      );
+    }
+
+    const angle = Math.atan2(y2 - y1, x2 - x1);
+    const head = strokeWidth * 4;
+    const headPoints = [
+      [x2, y2],
+      [x2 - head * Math.cos(angle - 0.45), y2 - head * Math.sin(angle - 0.45)],
+      [x2 - head * Math.cos(angle + 0.45), y2 - head * Math.sin(angle + 0.45)],
+    ].map(([x, y]) => `${x},${y}`).join(' ');
+    return (
+      <>
+        <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={shapeColor} strokeWidth={strokeWidth} strokeLinecap="round" />
+        <polygon points={headPoints} fill={shapeColor} />
+        <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="transparent" strokeWidth={strokeWidth * 5} />
+      </>
+    );
+  };
+
+  return (
+    <div className={`absolute inset-0 overflow-hidden ${editing ? 'z-20' : 'pointer-events-none'}`}>
+      <div
+        ref={containerRef}
+        className="absolute inset-0 origin-top-left"
+        style={isZoomed(zoom) ? { transform: zoomTransform(zoom) } : undefined}
+      >
+        {picture.width > 0 && (
+          <svg
+            className={`absolute overflow-visible touch-none ${editing && tool !== 'select' ? 'cursor-crosshair' : ''}`}
+            style={picture}
+            viewBox={`0 0 ${picture.width} ${picture.height}`}
+            onPointerDown={startDrag}
+            onPointerMove={moveDrag}
+            onPointerUp={endDrag}
+            onClick={placeText}
+          >
+            {annotations.map((annotation) => {
+              const moved = offset?.id === annotation.id ? offset : null;
+              return (
+                <g
+                  key={annotation.id}
+                  data-annotation-id={annotation.id}
+                  className={editing && tool === 'select' ? 'cursor-move' : ''}
+                  style={annotation.id === selectedId ? { filter: 'drop-shadow(0 0 4px rgba(255, 255, 255, 0.9))' } : undefined}
+                >
+                  {renderShape(annotation.kind, annotation.start, annotation.end, annotation.color, annotation.text, moved?.dx, moved?.dy)}
+                </g>
+              );
+            })}
+            {draft && tool !== 'select' && tool !== 'text' && (
+              <g opacity={0.7}>{renderShape(tool, draft.start, draft.end, color, '')}</g>
+            )}
+          </svg>
+        )}
+      </div>
+
+      {editing && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-2 px-3 py-2 rounded bg-black/80 text-white text-xs whitespace-nowrap">
+          {TOOLS.map(({ tool: choice, label, icon: Icon }) => (
+            <button
+              key={choice}
+              onClick={() => setTool(choice)}
+              className={`p-1.5 rounded ${tool === choice ? 'bg-blue-600' : 'hover:bg-white/20'}`}
+              title={label}
+            >
+              <Icon className="w-4 h-4" />
+            </button>
+          ))}
+
+          <span className="w-px h-5 bg-white/30" />
+          {COLORS.map((choice) => (
+            <button
+              key={choice}
+              onClick={() => setColor(choice)}
+              className={`h-4 w-4 rounded-full border ${color === choice ? 'border-white ring-2 ring-white/60' : 'border-white/40'}`}
+              style={{ backgroundColor: choice }}
+              title={choice}
+            />
+          ))}
+
+          <span className="w-px h-5 bg-white/30" />
+          <label className="flex items-center gap-1">
+            Expires
+            <select
+              value={expiryMs ?? ''}
+              onChange={(e) => setExpiryMs(e.target.value === '' ? null : Number(e.target.value))}
+              className="bg-gray-800 border border-gray-700 rounded px-1 py-0.5"
+            >
+              {EXPIRY_CHOICES.map(({ label, ms }) => (
+                <option key={label} value={ms ?? ''}>{label}</option>
+              ))}
+            </select>
+          </label>
+
+          <span className="w-px h-5 bg-white/30" />
+          <button
+            onClick={() => {
+              if (!selectedId) return;
+              removeAnnotation(streamKey, selectedId);
+              setSelectedId(null);
+            }}
+            disabled={!selectedId}
+            className="p-1.5 rounded hover:bg-white/20 disabled:opacity-40 disabled:hover:bg-transparent"
+            title="Delete selected (Delete)"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+          <button
+            onClick={clearAll}
+            disabled={annotations.length === 0}
+            className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600 disabled:opacity-40 disabled:hover:bg-gray-700"
+          >
+            Clear all
+          </button>
+          <button onClick={onDone} className="px-2 py-0.5 rounded bg-blue-600 hover:bg-blue-700">
+            Done
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { AnimatePresence, motion } from 'framer-motion';
+import { RefreshCw, WifiOff } from 'lucide-react';
+import socketService from '../services/socketService';
+import type { ReconnectingEvent, ReconnectStoppedEvent } from '../types/socket';
+
+type BannerState =
+  | { kind: 'hidden' }
+  | { kind: 'reconnecting'; reconnect: ReconnectingEvent }
+  | { kind: 'stopped'; reason: ReconnectStoppedEvent['reason'] };
+
+const initialState = (): BannerState => {
+  const reconnect = socketService.getNextReconnect();
+  if (reconnect) return { kind: 'reconnecting', reconnect };
+  if (socketService.isReconnectStopped()) return { kind: 'stopped', reason: 'exhausted' };
+  return { kind: 'hidden' };
+};
+
+/**
+ * Shown while the shared socket is down: counts down to the next reconnect attempt,
+ * and stays up with a way back once reconnecting has stopped.
+ */
+export const ConnectionBanner = () => {
+  const [state, setState] = useState<BannerState>(initialState);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const handleReconnecting = (reconnect: ReconnectingEvent) => setState({ kind: 'reconnecting', reconnect });
+    const handleStopped = ({ reason }: ReconnectStoppedEvent) => setState({ kind: 'stopped', reason });
+    // Sign-in problems have their own prompt
+    const hide = () => setState({ kind: 'hidden' });
+
+    socketService.on('reconnecting', handleReconnecting);
+    socketService.on('reconnect.stopped', handleStopped);
+    socketService.on('open', hide);
+    socketService.on('auth.required', hide);
+    return () => {
+      socketService.off('reconnecting', handleReconnecting);
+      socketService.off('reconnect.stopped', handleStopped);
+      socketService.off('open', hide);
+      socketService.off('auth.required', hide);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (state.kind !== 'reconnecting') return;
+    const timer = setInterval(() => setNow(Date.now()), 500);
+    return () => clearInterval(timer);
+  }, [state.kind]);
+
+  let message = '';
+  if (state.kind === 'reconnecting') {
+    const { attempt, maxAttempts, nextAttemptAt } = state.reconnect;
+    const seconds = Math.max(0, Math.ceil((nextAttemptAt - now) / 1000));
+    const of = maxAttempts === 'forever' ? '' : ` of ${maxAttempts}`;
+    message = seconds > 0
+      ? `Connection lost. Reconnecting in ${seconds}s (attempt ${attempt}${of})`
+      : `Connection lost. Reconnecting (attempt ${attempt}${of})...`;
+  } else if (state.kind === 'stopped') {
+    message = state.reason === 'cancelled'
+      ? 'Disconnected from the stream server.'
+      : 'Could not reach the stream server.';
+  }
+
+  return (
+    <AnimatePresence>
+      {state.kind !== 'hidden' && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          exit={{ opacity: 0, y: 20 }}
+          className="fixed bottom-4 inset-x-0 z-50 flex justify-center pointer-events-none px-4"
+          role="status"
+        >
+          <div className="pointer-events-auto flex flex-wrap items-center gap-3 px-4 py-3 rounded-lg shadow-lg bg-gray-900 text-white border border-gray-700">
+            <WifiOff className={`h-5 w-5 ${state.kind === 'reconnecting' ? 'text-yellow-400' : 'text-red-400'}`} />
+            <span className="text-sm">{message}</span>
+            <button
+              onClick={() => socketService.retryNow()}
+              className="flex items-center px-3 py-1 rounded-md bg-blue-600 hover:bg-blue-700 text-sm"
+            >
+              <RefreshCw className="h-4 w-4 mr-1.5" />
+              {state.kind === 'reconnecting' ? 'Retry now' : 'Reconnect'}
+            </button>
+            {state.kind === 'reconnecting' && (
+              <button
+                onClick={() => socketService.cancelReconnect()}
+                className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-sm"
+              >
+                Give up
+              </button>
+            )}
+          </div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+};
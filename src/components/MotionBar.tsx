@@ -0,0 +1,28 @@
+interface MotionBarProps {
+  level: number;
+  threshold: number;
+  active: boolean;
+}
+
+/**
+ * How much is moving right now, with the level that counts as motion marked halfway
+ */
+export const MotionBar = ({ level, threshold, active }: MotionBarProps) => {
+  const fill = Math.min(1, level / (threshold * 2));
+
+  return (
+    <div
+      className="absolute top-16 right-4 z-20 flex items-center gap-2 px-2 py-1 rounded bg-black/70 text-xs text-white pointer-events-none"
+      title={`${Math.round(level * 100)}% of the watched area changed`}
+    >
+      <span className={active ? 'text-red-400 font-medium' : 'text-gray-300'}>Motion</span>
+      <div className="relative w-24 h-1.5 rounded-full bg-white/20 overflow-hidden">
+        <div
+          className={`absolute inset-y-0 left-0 ${active ? 'bg-red-500' : 'bg-green-400'}`}
+          style={{ width: `${fill * 100}%` }}
+        />
+        <div className="absolute inset-y-0 left-1/2 w-px bg-white/80" />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,167 @@
+import { motion } from 'framer-motion';
+import { Plus, Trash2, X } from 'lucide-react';
+import { useMotionStore } from '../store/motionStore';
+import type { MotionAlerts, MotionSettings, MotionZoneKind } from '../types/motion';
+import { DEFAULT_MOTION_SETTINGS } from '../utils/motion';
+import { formatDuration } from '../utils/streamUtils';
+
+interface MotionPanelProps {
+  streamKey: string;
+  streamName: string;
+  // Closes the panel and lets the user draw a zone on the player
+  onDrawZone: (kind: MotionZoneKind) => void;
+  onClose: () => void;
+}
+
+const ALERT_LABELS: Record<keyof MotionAlerts, string> = {
+  toast: 'Show a notification',
+  sound: 'Play a sound',
+  select: 'Switch to this stream on the streams page',
+};
+
+const ZONE_LABELS: Record<MotionZoneKind, string> = {
+  include: 'Watch only',
+  exclude: 'Ignore',
+};
+
+/**
+ * Motion detection settings of one stream, its zones, and the log of motion events
+ */
+export const MotionPanel = ({ streamKey, streamName, onDrawZone, onClose }: MotionPanelProps) => {
+  const settings = useMotionStore((state) => state.settings[streamKey]) ?? DEFAULT_MOTION_SETTINGS;
+  const events = useMotionStore((state) => state.events[streamKey]) ?? [];
+  const setSettings = useMotionStore((state) => state.setSettings);
+  const clearEvents = useMotionStore((state) => state.clearEvents);
+
+  const update = (patch: Partial<MotionSettings>) => setSettings(streamKey, { ...settings, ...patch });
+
+  return (
+    <motion.div
+      className="absolute inset-0 bg-black/80 z-30 flex items-center justify-center p-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-gray-900 rounded-lg p-4 max-w-md w-full max-h-full overflow-y-auto shadow-xl text-sm"
+      >
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-white text-lg font-bold truncate">Motion on {streamName}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close motion detection">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <label className="flex items-center justify-between text-gray-300 font-medium">
+            Detect motion
+            <input
+              type="checkbox"
+              checked={settings.enabled}
+              onChange={(e) => update({ enabled: e.target.checked })}
+              className="h-4 w-4 accent-blue-600"
+            />
+          </label>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label htmlFor={`motion-sensitivity-${streamKey}`} className="text-gray-400">Sensitivity</label>
+              <span className="text-gray-300">{Math.round(settings.sensitivity * 100)}</span>
+            </div>
+            <input
+              id={`motion-sensitivity-${streamKey}`}
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.sensitivity}
+              onChange={(e) => update({ sensitivity: Number(e.target.value) })}
+              className="w-full accent-blue-600"
+            />
+          </div>
+
+          <div className="pt-4 border-t border-gray-800 space-y-2">
+            <h4 className="text-gray-300 font-medium">When motion starts</h4>
+            {(Object.keys(ALERT_LABELS) as (keyof MotionAlerts)[]).map((alert) => (
+              <label key={alert} className="flex items-center justify-between text-gray-400">
+                {ALERT_LABELS[alert]}
+                <input
+                  type="checkbox"
+                  checked={settings.alerts[alert]}
+                  onChange={(e) => update({ alerts: { ...settings.alerts, [alert]: e.target.checked } })}
+                  className="h-4 w-4 accent-blue-600"
+                />
+              </label>
+            ))}
+          </div>
+
+          <div className="pt-4 border-t border-gray-800 space-y-2">
+            <h4 className="text-gray-300 font-medium">Zones</h4>
+            {settings.zones.length === 0 ? (
+              <p className="text-gray-500 text-xs">No zones, the whole picture is watched.</p>
+            ) : (
+              <ul className="space-y-1">
+                {settings.zones.map((zone, index) => (
+                  <li key={zone.id} className="flex items-center gap-2 text-gray-300">
+                    <span className={`h-3 w-3 rounded-sm ${zone.kind === 'include' ? 'bg-green-500' : 'bg-red-500'}`} />
+                    <span className="flex-1">
+                      {ZONE_LABELS[zone.kind]} · zone {index + 1} · {zone.points.length} points
+                    </span>
+                    <button
+                      onClick={() => update({ zones: settings.zones.filter((other) => other.id !== zone.id) })}
+                      className="p-1 rounded text-red-400 hover:bg-red-900/40"
+                      aria-label="Delete zone"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex gap-2">
+              {(Object.keys(ZONE_LABELS) as MotionZoneKind[]).map((kind) => (
+                <button
+                  key={kind}
+                  onClick={() => onDrawZone(kind)}
+                  className="flex items-center px-2 py-1 rounded-md bg-gray-800 text-gray-300 hover:bg-gray-700"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  {kind === 'include' ? 'Watch zone' : 'Ignore zone'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="pt-4 border-t border-gray-800">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-gray-300 font-medium">Events</h4>
+              {events.length > 0 && (
+                <button onClick={() => clearEvents(streamKey)} className="text-xs text-gray-400 hover:text-white">
+                  Clear
+                </button>
+              )}
+            </div>
+            {events.length === 0 ? (
+              <p className="text-gray-500 text-xs">No motion seen yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-800 max-h-48 overflow-y-auto">
+                {events.map((event) => (
+                  <li key={event.startedAt} className="flex justify-between py-1.5 text-gray-300">
+                    <span>{new Date(event.startedAt).toLocaleString()}</span>
+                    <span className="text-gray-500 tabular-nums">
+                      {event.endedAt === null ? 'ongoing' : formatDuration(event.endedAt - event.startedAt)}
+                      {' · '}{Math.round(event.peak * 100)}%
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
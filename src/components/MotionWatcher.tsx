@@ -0,0 +1,66 @@
+import { useEffect, useRef } from 'react';
+import { useStreamSession } from '../hooks/useStreamSession';
+import { useMotionDetection } from '../hooks/useMotionDetection';
+import { createFrameRenderer } from '../services/frameRenderer';
+import type { FrameRenderer } from '../services/frameRenderer';
+import { onPaint } from '../services/paintLoop';
+import type { Stream } from '../types/stream';
+import type { StreamOptions } from '../types/socket';
+
+interface MotionWatcherProps {
+  stream: Stream;
+  onSelect: (id: string | number) => void;
+}
+
+// Motion shows at a few small frames a second, no need for the full stream in the background
+const WATCH_OPTIONS: StreamOptions = { fps: 5, max_width: 320 };
+
+/**
+ * Runs motion detection on a stream that isn't on screen, so its alerts still fire. Frames
+ * are decoded without being painted anywhere; renders nothing.
+ */
+export const MotionWatcher = ({ stream, onSelect }: MotionWatcherProps) => {
+  const { session } = useStreamSession({ rtspUrl: stream.url, adaptive: false });
+  const { zones, reportMotion } = useMotionDetection({
+    streamKey: String(stream.id ?? stream.url),
+    streamName: stream.name,
+    onSelect: () => {
+      if (stream.id !== undefined) onSelect(stream.id);
+    },
+  });
+  const rendererRef = useRef<FrameRenderer | null>(null);
+  const zonesRef = useRef(zones);
+
+  useEffect(() => {
+    session.setOptions(WATCH_OPTIONS);
+  }, [session]);
+
+  useEffect(() => {
+    zonesRef.current = zones;
+    rendererRef.current?.setMotionZones(zones);
+  }, [zones]);
+
+  useEffect(() => {
+    const renderer = createFrameRenderer(null, (stats) => {
+      if (stats.motion !== null) reportMotion(stats.motion);
+    });
+    renderer.setMotionZones(zonesRef.current);
+    rendererRef.current = renderer;
+
+    let decodedPosition = -1;
+    const stopPainting = onPaint(() => {
+      if (session.frames.position === decodedPosition) return;
+      decodedPosition = session.frames.position;
+      const frame = session.frames.latest();
+      if (frame) renderer.render(frame);
+    });
+
+    return () => {
+      stopPainting();
+      renderer.dispose();
+      rendererRef.current = null;
+    };
+  }, [session, reportMotion]);
+
+  return null;
+};
@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { motion } from 'framer-motion';
 import { PlusIcon, MoonIcon, SunIcon } from '@heroicons/react/24/outline';
+import { getConfig } from '../services/config';
 
 interface NavbarProps {
   onAddStream: () => void;
@@ -35,6 +36,14 @@ export const Navbar = ({ onAddStream }: NavbarProps) => {
                 </svg>
               </div>
               <h1 className="text-xl font-bold text-gray-900 dark:text-white">RTSP Stream Viewer</h1>
+              {getConfig().demoMode && (
+                <span
+                  className="ml-3 px-2 py-0.5 rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200 text-xs font-semibold"
+                  title="Streams and frames are generated in the browser"
+                >
+                  DEMO
+                </span>
+              )}
             </motion.div>
           </div>
           
@@ -0,0 +1,76 @@
+import { Plus, Trash2 } from 'lucide-react';
+import type { PrivacyMask, PrivacyMaskStyle } from '../types/stream';
+
+interface PrivacyMaskSettingsProps {
+  masks: PrivacyMask[];
+  onChange: (masks: PrivacyMask[]) => void;
+  // Closes the settings and lets the user draw a mask on the player
+  onDraw: (shape: PrivacyMask['shape']) => void;
+  // Masks are stored with the stream, which has to be saved first
+  disabled?: boolean;
+}
+
+const SHAPE_LABELS: Record<PrivacyMask['shape'], string> = {
+  rect: 'Rectangle',
+  polygon: 'Polygon',
+};
+
+const STYLE_LABELS: Record<PrivacyMaskStyle, string> = {
+  fill: 'Solid',
+  blur: 'Blur',
+};
+
+/**
+ * The stream's privacy masks in the settings panel: change how each is covered, delete, or draw new ones
+ */
+export const PrivacyMaskSettings = ({ masks, onChange, onDraw, disabled = false }: PrivacyMaskSettingsProps) => (
+  <div className="pt-4 border-t border-gray-800 space-y-3">
+    <h4 className="text-gray-300 text-sm font-medium">Privacy masks</h4>
+    {masks.length === 0 ? (
+      <p className="text-gray-500 text-xs">
+        Cover areas that must never be shown or saved, in the player, snapshots and recordings.
+      </p>
+    ) : (
+      <ul className="space-y-1">
+        {masks.map((mask, index) => (
+          <li key={mask.id} className="flex items-center gap-2 text-gray-300 text-sm">
+            <span className="flex-1">{SHAPE_LABELS[mask.shape]} {index + 1}</span>
+            <select
+              value={mask.style}
+              onChange={(e) => onChange(masks.map((other) => (
+                other.id === mask.id ? { ...other, style: e.target.value as PrivacyMaskStyle } : other
+              )))}
+              disabled={disabled}
+              className="bg-gray-800 border border-gray-700 rounded-md px-2 py-1 text-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {(Object.keys(STYLE_LABELS) as PrivacyMaskStyle[]).map((style) => (
+                <option key={style} value={style}>{STYLE_LABELS[style]}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => onChange(masks.filter((other) => other.id !== mask.id))}
+              disabled={disabled}
+              className="p-1 rounded text-red-400 hover:bg-red-900/40"
+              aria-label="Delete mask"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    )}
+    <div className="flex gap-2">
+      {(Object.keys(SHAPE_LABELS) as PrivacyMask['shape'][]).map((shape) => (
+        <button
+          key={shape}
+          onClick={() => onDraw(shape)}
+          disabled={disabled}
+          className="flex items-center px-2 py-1 rounded-md bg-gray-800 text-gray-300 text-sm hover:bg-gray-700 disabled:opacity-40"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          {SHAPE_LABELS[shape]}
+        </button>
+      ))}
+    </div>
+  </div>
+);
@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { Send } from 'lucide-react';
+import socketService from '../services/socketService';
+import type { OutboundAction, OutboundMessage } from '../types/socket';
+import { createSessionId } from '../utils/streamUtils';
+
+// A starting point for every action the backend understands
+const TEMPLATES: { [A in OutboundAction]: (sessionId: string) => Extract<OutboundMessage, { action: A }> } = {
+  start_stream: (sessionId) => ({
+    action: 'start_stream',
+    session_id: sessionId,
+    rtsp_url: 'rtsp://',
+    transport: socketService.getFrameTransport(),
+  }),
+  stop_stream: (sessionId) => ({ action: 'stop_stream', session_id: sessionId }),
+  set_stream_options: (sessionId) => ({
+    action: 'set_stream_options',
+    session_id: sessionId,
+    fps: 10,
+    max_width: 640,
+    jpeg_quality: 75,
+  }),
+  get_available_streams: () => ({ action: 'get_available_streams' }),
+  ping: () => ({ action: 'ping' }),
+};
+
+const ACTIONS = Object.keys(TEMPLATES) as OutboundAction[];
+
+/**
+ * JSON editor for sending raw actions over the shared socket. Templates for the same
+ * console session reuse one session id, so a stop or options change targets the last start.
+ */
+export const ProtocolComposer = () => {
+  const [sessionId, setSessionId] = useState(createSessionId);
+  const [action, setAction] = useState<OutboundAction>('start_stream');
+  const [text, setText] = useState(() => JSON.stringify(TEMPLATES.start_stream(sessionId), null, 2));
+  const [error, setError] = useState<string | null>(null);
+
+  const applyTemplate = (next: OutboundAction, id = sessionId) => {
+    setAction(next);
+    setText(JSON.stringify(TEMPLATES[next](id), null, 2));
+    setError(null);
+  };
+
+  const newSession = () => {
+    const id = createSessionId();
+    setSessionId(id);
+    applyTemplate(action, id);
+  };
+
+  const send = () => {
+    let message: unknown;
+    try {
+      message = JSON.parse(text);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid JSON');
+      return;
+    }
+    if (typeof message !== 'object' || message === null || typeof (message as { action?: unknown }).action !== 'string') {
+      setError('A message needs an "action" field');
+      return;
+    }
+    setError(null);
+    // Sent as typed, the console is also for trying out what the backend does with bad input
+    if (!socketService.sendMessage(message as OutboundMessage)) {
+      setError('The message was dropped');
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow border border-gray-200 dark:border-gray-700 p-4">
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white mr-auto">Composer</h2>
+        <select
+          value={action}
+          onChange={(e) => applyTemplate(e.target.value as OutboundAction)}
+          className="bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          {ACTIONS.map((name) => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        <button
+          onClick={newSession}
+          className="px-2 py-1 text-sm rounded-md border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+          title={`Current session: ${sessionId}`}
+        >
+          New session id
+        </button>
+      </div>
+
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) send();
+        }}
+        spellCheck={false}
+        rows={10}
+        className="w-full font-mono text-xs bg-gray-50 dark:bg-gray-900 border border-gray-300 dark:border-gray-600 rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+
+      <div className="flex items-center justify-between mt-2">
+        <span className="text-xs text-red-500">{error}</span>
+        <button
+          onClick={send}
+          className="flex items-center px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm"
+          title="Ctrl+Enter"
+        >
+          <Send className="h-4 w-4 mr-1.5" />
+          Send
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import { useEffect, useState } from 'react';
+import type { PrivacyMask, StreamFrame } from '../types/stream';
+import { frameToBlob } from '../utils/frameCodec';
+import { PrivacyMasker, createDomScratch } from '../utils/privacyMask';
+
+export type LogDirection = 'in' | 'out' | 'event';
+
+export interface ProtocolLogEntry {
+  id: number;
+  time: number;
+  direction: LogDirection;
+  // Message type, action name, or connection event
+  type: string;
+  // JSON-safe; frame data is replaced by a short summary
+  payload: unknown;
+  frame?: StreamFrame;
+  // Masks of the frame's stream, covered before the thumbnail is shown. Null (or missing)
+  // while they aren't known, and then the frame isn't shown at all.
+  privacyMasks?: PrivacyMask[] | null;
+}
+
+interface ProtocolLogProps {
+  entries: ProtocolLogEntry[];
+}
+
+const DIRECTION_STYLES: Record<LogDirection, { label: string; className: string }> = {
+  in: { label: '←', className: 'text-green-600 dark:text-green-400' },
+  out: { label: '→', className: 'text-blue-600 dark:text-blue-400' },
+  event: { label: '•', className: 'text-amber-600 dark:text-amber-400' },
+};
+
+// Twice the thumbnail's CSS height, for sharp thumbnails on high-density screens
+const MASKED_THUMBNAIL_HEIGHT = 128;
+
+const FrameThumbnail = ({ frame, privacyMasks }: { frame: StreamFrame; privacyMasks: PrivacyMask[] }) => {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (privacyMasks.length > 0) {
+      // The raw frame is never shown, only a copy with the masks drawn over it
+      let cancelled = false;
+      const masker = new PrivacyMasker(createDomScratch);
+      masker.setMasks(privacyMasks);
+      createImageBitmap(frameToBlob(frame), { resizeHeight: MASKED_THUMBNAIL_HEIGHT, resizeQuality: 'low' }).then((bitmap) => {
+        const canvas = document.createElement('canvas');
+        canvas.width = bitmap.width;
+        canvas.height = bitmap.height;
+        const ctx = canvas.getContext('2d');
+        if (ctx && !cancelled) {
+          ctx.drawImage(bitmap, 0, 0);
+          masker.apply(ctx, bitmap, 0, 0, bitmap.width, bitmap.height);
+          setSrc(canvas.toDataURL('image/jpeg'));
+        }
+        bitmap.close();
+      }, (err) => console.warn('Protocol log: could not decode frame', err));
+      return () => {
+        cancelled = true;
+      };
+    }
+    if (typeof frame.data === 'string') {
+      setSrc(`data:image/jpeg;base64,${frame.data}`);
+      return;
+    }
+    const url = URL.createObjectURL(new Blob([frame.data], { type: 'image/jpeg' }));
+    setSrc(url);
+    return () => URL.revokeObjectURL(url);
+  }, [frame, privacyMasks]);
+
+  if (!src) return null;
+  return <img src={src} alt={`Frame ${frame.sequence ?? ''}`} className="h-16 w-auto rounded border border-gray-300 dark:border-gray-600" />;
+};
+
+const LogRow = ({ entry }: { entry: ProtocolLogEntry }) => {
+  const direction = DIRECTION_STYLES[entry.direction];
+  const summary = typeof entry.payload === 'string' ? entry.payload : JSON.stringify(entry.payload);
+
+  return (
+    <li className="border-b border-gray-100 dark:border-gray-700 py-1.5 font-mono text-xs">
+      <details>
+        <summary className="flex items-center gap-2 cursor-pointer list-none">
+          <span className="text-gray-400 shrink-0">{new Date(entry.time).toLocaleTimeString()}</span>
+          <span className={`shrink-0 font-bold ${direction.className}`}>{direction.label}</span>
+          <span className="shrink-0 font-semibold text-gray-800 dark:text-gray-200">{entry.type}</span>
+          {entry.frame && entry.privacyMasks ? (
+            <FrameThumbnail frame={entry.frame} privacyMasks={entry.privacyMasks} />
+          ) : entry.frame ? (
+            <span className="truncate italic text-gray-400">Frame hidden until the stream's privacy masks are known</span>
+          ) : (
+            <span className="truncate text-gray-500 dark:text-gray-400">{summary}</span>
+          )}
+        </summary>
+        <pre className="mt-1 p-2 bg-gray-50 dark:bg-gray-900 rounded overflow-x-auto text-gray-700 dark:text-gray-300">
+          {typeof entry.payload === 'string' ? entry.payload : JSON.stringify(entry.payload, null, 2)}
+        </pre>
+      </details>
+    </li>
+  );
+};
+
+export const ProtocolLog = ({ entries }: ProtocolLogProps) => {
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400 p-4">No matching events yet...</p>;
+  }
+  return (
+    <ul className="px-3">
+      {entries.map((entry) => (
+        <LogRow key={entry.id} entry={entry} />
+      ))}
+    </ul>
+  );
+};
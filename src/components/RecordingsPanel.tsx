@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Download, Play, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { deleteRecording, listRecordings } from '../services/recordingStore';
+import type { RecordingStopReason, StoredRecording } from '../types/recording';
+import { downloadBlob, fileTimestamp } from '../utils/download';
+import { formatBytes, formatDuration } from '../utils/streamUtils';
+
+interface RecordingsPanelProps {
+  streamKey: string;
+  streamName: string;
+  onClose: () => void;
+}
+
+const STOP_REASONS: Record<RecordingStopReason, string> = {
+  user: '',
+  size: 'size limit reached',
+  duration: 'time limit reached',
+  error: 'ended by an error',
+};
+
+const fileName = (recording: StoredRecording): string => {
+  const name = recording.streamName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'recording';
+  return `${name}-${fileTimestamp(recording.startedAt)}.webm`;
+};
+
+/**
+ * The clips recorded for one stream, newest first, with a player for the selected one
+ */
+export const RecordingsPanel = ({ streamKey, streamName, onClose }: RecordingsPanelProps) => {
+  const [recordings, setRecordings] = useState<StoredRecording[] | null>(null);
+  const [playingId, setPlayingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listRecordings(streamKey)
+      .then((found) => {
+        if (!cancelled) setRecordings(found);
+      })
+      .catch((err) => {
+        console.error('Failed to load recordings:', err);
+        toast.error('Could not load the recordings');
+        if (!cancelled) setRecordings([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [streamKey]);
+
+  const playing = recordings?.find((recording) => recording.id === playingId) ?? null;
+  const [playingUrl, setPlayingUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!playing) {
+      setPlayingUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(playing.blob);
+    setPlayingUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [playing]);
+
+  const remove = async (id: number) => {
+    try {
+      await deleteRecording(id);
+      if (playingId === id) setPlayingId(null);
+      setRecordings((current) => current?.filter((recording) => recording.id !== id) ?? null);
+    } catch (err) {
+      console.error('Failed to delete recording:', err);
+      toast.error('Could not delete the recording');
+    }
+  };
+
+  return (
+    <motion.div
+      className="absolute inset-0 bg-black/80 z-30 flex items-center justify-center p-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-gray-900 rounded-lg p-4 max-w-2xl w-full max-h-full overflow-y-auto shadow-xl"
+      >
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-white text-lg font-bold truncate">Recordings of {streamName}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close recordings">
+            <X size={20} />
+          </button>
+        </div>
+
+        {playingUrl && (
+          <video key={playingUrl} src={playingUrl} controls autoPlay className="w-full rounded bg-black mb-3" />
+        )}
+
+        {recordings === null ? (
+          <p className="text-gray-400 text-sm py-8 text-center">Loading...</p>
+        ) : recordings.length === 0 ? (
+          <p className="text-gray-400 text-sm py-8 text-center">No recordings yet. Use the record button while watching.</p>
+        ) : (
+          <ul className="divide-y divide-gray-800">
+            {recordings.map((recording) => (
+              <li key={recording.id} className="flex items-center gap-3 py-2 text-sm text-gray-300">
+                <button
+                  onClick={() => setPlayingId(recording.id)}
+                  className={`p-2 rounded-full ${recording.id === playingId ? 'bg-blue-600 text-white' : 'bg-gray-800 hover:bg-gray-700'}`}
+                  aria-label="Play recording"
+                >
+                  <Play className="h-4 w-4" />
+                </button>
+                <div className="flex-1 min-w-0">
+                  <div>
+                    {new Date(recording.startedAt).toLocaleString()} – {new Date(recording.endedAt).toLocaleTimeString()}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {formatDuration(recording.endedAt - recording.startedAt)} · {formatBytes(recording.size)}
+                    {STOP_REASONS[recording.stopReason] && ` · ${STOP_REASONS[recording.stopReason]}`}
+                  </div>
+                </div>
+                <button
+                  onClick={() => downloadBlob(recording.blob, fileName(recording))}
+                  className="p-2 rounded hover:bg-gray-800"
+                  aria-label="Download recording"
+                >
+                  <Download className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => remove(recording.id)}
+                  className="p-2 rounded text-red-400 hover:bg-red-900/40"
+                  aria-label="Delete recording"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
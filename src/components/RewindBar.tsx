@@ -0,0 +1,64 @@
+import { Pause, Play, Radio, StepBack, StepForward } from 'lucide-react';
+import type { RewindController, RewindTimeline } from '../services/rewindController';
+import { formatDuration } from '../utils/streamUtils';
+
+interface RewindBarProps {
+  controller: RewindController;
+  live: boolean;
+  paused: boolean;
+  timeline: RewindTimeline | null;
+}
+
+const buttonClass = 'text-white p-1.5 rounded-full hover:bg-white/20 transition-colors disabled:opacity-40 disabled:hover:bg-transparent';
+
+/**
+ * Scrub bar over the rewind history: pause, step frame by frame, drag back in time and
+ * jump back to live.
+ */
+export const RewindBar = ({ controller, live, paused, timeline }: RewindBarProps) => {
+  const empty = !timeline || timeline.end === timeline.start;
+  const span = timeline ? timeline.end - timeline.start : 0;
+
+  return (
+    <div className="flex items-center gap-2">
+      <button onClick={() => controller.step(-1)} disabled={empty} className={buttonClass} title="Previous Frame">
+        <StepBack className="w-4 h-4" />
+      </button>
+      <button
+        onClick={() => controller.togglePause()}
+        disabled={empty}
+        className={buttonClass}
+        title={live || !paused ? 'Pause' : 'Play'}
+      >
+        {live || !paused ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+      </button>
+      <button onClick={() => controller.step(1)} disabled={empty || live} className={buttonClass} title="Next Frame">
+        <StepForward className="w-4 h-4" />
+      </button>
+
+      <input
+        type="range"
+        min={timeline?.start ?? 0}
+        max={timeline?.end ?? 0}
+        step="any"
+        value={timeline?.current ?? 0}
+        disabled={empty}
+        onChange={(e) => controller.seek(Number(e.target.value))}
+        className="flex-1 accent-red-500"
+        title={timeline ? `Last ${formatDuration(span)} kept for rewinding` : 'Nothing to rewind yet'}
+      />
+
+      <button
+        onClick={() => controller.goLive()}
+        disabled={live}
+        className={`flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${
+          live ? 'bg-red-600 text-white' : 'bg-white/20 text-white hover:bg-white/30'
+        }`}
+        title={live ? 'Watching live' : 'Jump to Live'}
+      >
+        <Radio className="w-3 h-3" />
+        LIVE
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,158 @@
+import { useEffect, useRef, useState } from 'react';
+import { useContainedRect } from '../hooks/useContainedRect';
+
+type Point = [number, number];
+
+interface EditorShape {
+  id: string;
+  points: Point[];
+  color: string;
+}
+
+interface ShapeEditorProps {
+  // Shapes already there, shown while drawing
+  shapes: EditorShape[];
+  tool: 'rect' | 'polygon';
+  color: string;
+  // What is being drawn, e.g. "Watch zone"
+  label: string;
+  // Size of the stream's frames, shapes are drawn over the letterboxed picture
+  frameWidth: number;
+  frameHeight: number;
+  onDone: (points: Point[]) => void;
+  onCancel: () => void;
+}
+
+const TOOL_HINTS: Record<ShapeEditorProps['tool'], string> = {
+  rect: 'drag to draw a rectangle',
+  polygon: 'click to add corners, double-click or Enter to finish',
+};
+
+const toPoints = (points: Point[]): string => points.map(([x, y]) => `${x},${y}`).join(' ');
+
+/**
+ * Draws a rectangle or polygon over the player, Escape cancels. Points are fractions of
+ * the frame, so shapes stay put whatever size the player is.
+ */
+export const ShapeEditor = ({ shapes, tool, color, label, frameWidth, frameHeight, onDone, onCancel }: ShapeEditorProps) => {
+  const [containerRef, picture] = useContainedRect<HTMLDivElement>(frameWidth, frameHeight);
+  const [points, setPoints] = useState<Point[]>([]);
+  const dragStartRef = useRef<Point | null>(null);
+  const canFinish = tool === 'polygon' && points.length >= 3;
+
+  const finishRef = useRef(() => {});
+  useEffect(() => {
+    finishRef.current = () => {
+      if (canFinish) onDone(points);
+    };
+  });
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onCancel();
+      if (event.key === 'Enter') finishRef.current();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const pointAt = (event: React.PointerEvent<SVGSVGElement> | React.MouseEvent<SVGSVGElement>): Point => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return [
+      Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+      Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height)),
+    ];
+  };
+
+  const rectangle = ([x1, y1]: Point, [x2, y2]: Point): Point[] => [[x1, y1], [x2, y1], [x2, y2], [x1, y2]];
+
+  const addPoint = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (tool !== 'polygon') return;
+    const [x, y] = pointAt(event);
+    setPoints((current) => {
+      // The clicks of a double-click land on the same spot
+      const last = current[current.length - 1];
+      if (last && Math.abs(last[0] - x) < 0.005 && Math.abs(last[1] - y) < 0.005) return current;
+      return [...current, [x, y]];
+    });
+  };
+
+  const startDrag = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (tool !== 'rect') return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragStartRef.current = pointAt(event);
+    setPoints([]);
+  };
+
+  const moveDrag = (event: React.PointerEvent<SVGSVGElement>) => {
+    if (dragStartRef.current) setPoints(rectangle(dragStartRef.current, pointAt(event)));
+  };
+
+  const endDrag = (event: React.PointerEvent<SVGSVGElement>) => {
+    const start = dragStartRef.current;
+    if (!start) return;
+    dragStartRef.current = null;
+    const end = pointAt(event);
+    // A click without a drag isn't a rectangle
+    if (Math.abs(end[0] - start[0]) < 0.01 || Math.abs(end[1] - start[1]) < 0.01) {
+      setPoints([]);
+      return;
+    }
+    onDone(rectangle(start, end));
+  };
+
+  return (
+    <div ref={containerRef} className="absolute inset-0 z-20 bg-black/30">
+      <svg
+        className="absolute cursor-crosshair touch-none"
+        style={picture}
+        viewBox="0 0 1 1"
+        preserveAspectRatio="none"
+        onClick={addPoint}
+        onDoubleClick={() => finishRef.current()}
+        onPointerDown={startDrag}
+        onPointerMove={moveDrag}
+        onPointerUp={endDrag}
+      >
+        {shapes.map((shape) => (
+          <polygon
+            key={shape.id}
+            points={toPoints(shape.points)}
+            fill={shape.color}
+            fillOpacity={0.15}
+            stroke={shape.color}
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {points.length > 0 && (
+          <polygon
+            points={toPoints(points)}
+            fill={color}
+            fillOpacity={0.3}
+            stroke={color}
+            strokeWidth={2}
+            strokeDasharray="6 4"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+
+      <div className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-3 px-3 py-2 rounded bg-black/80 text-white text-xs whitespace-nowrap">
+        <span>{label}: {TOOL_HINTS[tool]}</span>
+        {tool === 'polygon' && (
+          <button
+            onClick={() => finishRef.current()}
+            disabled={!canFinish}
+            className="px-2 py-0.5 rounded bg-blue-600 hover:bg-blue-700 disabled:opacity-40 disabled:hover:bg-blue-600"
+          >
+            Done
+          </button>
+        )}
+        <button onClick={onCancel} className="px-2 py-0.5 rounded bg-gray-700 hover:bg-gray-600">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
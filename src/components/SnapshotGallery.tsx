@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Download, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { deleteSnapshot, listSnapshots } from '../services/snapshotStore';
+import { downloadSnapshot } from '../services/snapshots';
+import type { SnapshotFormat, StoredSnapshot } from '../types/snapshot';
+
+interface SnapshotGalleryProps {
+  streamKey: string;
+  streamName: string;
+  onClose: () => void;
+}
+
+/**
+ * The snapshots kept for one stream, newest first
+ */
+export const SnapshotGallery = ({ streamKey, streamName, onClose }: SnapshotGalleryProps) => {
+  const [snapshots, setSnapshots] = useState<StoredSnapshot[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listSnapshots(streamKey)
+      .then((found) => {
+        if (!cancelled) setSnapshots(found);
+      })
+      .catch((err) => {
+        console.error('Failed to load snapshots:', err);
+        toast.error('Could not load the snapshot gallery');
+        if (!cancelled) setSnapshots([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [streamKey]);
+
+  // One object URL per snapshot, released when the list changes or the gallery closes
+  const [urls, setUrls] = useState<Map<number, string>>(new Map());
+
+  useEffect(() => {
+    const created = new Map((snapshots ?? []).map((snapshot) => [snapshot.id, URL.createObjectURL(snapshot.blob)]));
+    setUrls(created);
+    return () => created.forEach((url) => URL.revokeObjectURL(url));
+  }, [snapshots]);
+
+  const download = (snapshot: StoredSnapshot, format: SnapshotFormat) => {
+    downloadSnapshot(snapshot, format).catch((err) => {
+      console.error('Failed to export snapshot:', err);
+      toast.error('Could not export the snapshot');
+    });
+  };
+
+  const remove = async (id: number) => {
+    try {
+      await deleteSnapshot(id);
+      setSnapshots((current) => current?.filter((snapshot) => snapshot.id !== id) ?? null);
+    } catch (err) {
+      console.error('Failed to delete snapshot:', err);
+      toast.error('Could not delete the snapshot');
+    }
+  };
+
+  return (
+    <motion.div
+      className="absolute inset-0 bg-black/80 z-30 flex items-center justify-center p-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-gray-900 rounded-lg p-4 max-w-3xl w-full max-h-full overflow-y-auto shadow-xl"
+      >
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-white text-lg font-bold truncate">Snapshots of {streamName}</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Close gallery">
+            <X size={20} />
+          </button>
+        </div>
+
+        {snapshots === null ? (
+          <p className="text-gray-400 text-sm py-8 text-center">Loading...</p>
+        ) : snapshots.length === 0 ? (
+          <p className="text-gray-400 text-sm py-8 text-center">No snapshots yet. Press S while watching to take one.</p>
+        ) : (
+          <ul className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {snapshots.map((snapshot) => (
+              <li key={snapshot.id} className="bg-gray-800 rounded overflow-hidden">
+                <img src={urls.get(snapshot.id)} alt={`Snapshot ${new Date(snapshot.capturedAt).toLocaleString()}`} className="w-full aspect-video object-contain bg-black" />
+                <div className="p-2 text-xs text-gray-300">
+                  <div>{new Date(snapshot.capturedAt).toLocaleString()}</div>
+                  <div className="text-gray-500">{snapshot.width} x {snapshot.height}</div>
+                  <div className="flex gap-1 mt-2">
+                    <button
+                      onClick={() => download(snapshot, 'png')}
+                      className="flex items-center px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-white"
+                    >
+                      <Download className="h-3 w-3 mr-1" /> PNG
+                    </button>
+                    <button
+                      onClick={() => download(snapshot, 'jpeg')}
+                      className="flex items-center px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-white"
+                    >
+                      <Download className="h-3 w-3 mr-1" /> JPEG
+                    </button>
+                    <button
+                      onClick={() => remove(snapshot.id)}
+                      className="ml-auto p-1 rounded text-red-400 hover:bg-red-900/40"
+                      aria-label="Delete snapshot"
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </button>
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </motion.div>
+    </motion.div>
+  );
+};
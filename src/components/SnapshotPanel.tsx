@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Download, Save, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { downloadSnapshot } from '../services/snapshots';
+import { saveSnapshot } from '../services/snapshotStore';
+import type { Snapshot, SnapshotFormat } from '../types/snapshot';
+
+interface SnapshotPanelProps {
+  snapshot: Snapshot;
+  onClose: () => void;
+}
+
+/**
+ * Preview of a freshly taken snapshot, to download or keep in the gallery
+ */
+export const SnapshotPanel = ({ snapshot, onClose }: SnapshotPanelProps) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(snapshot.blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [snapshot]);
+
+  const download = (format: SnapshotFormat) => {
+    downloadSnapshot(snapshot, format).catch((err) => {
+      console.error('Failed to export snapshot:', err);
+      toast.error('Could not export the snapshot');
+    });
+  };
+
+  const keep = async () => {
+    setSaving(true);
+    try {
+      await saveSnapshot(snapshot);
+      toast.success('Snapshot saved to the gallery');
+      onClose();
+    } catch (err) {
+      console.error('Failed to save snapshot:', err);
+      toast.error('Could not save the snapshot');
+      setSaving(false);
+    }
+  };
+
+  const buttonClass = 'flex items-center justify-center px-3 py-2 rounded-md text-sm font-medium text-white transition-colors disabled:opacity-50';
+
+  return (
+    <motion.div
+      className="absolute inset-0 bg-black/80 z-30 flex items-center justify-center p-4"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="bg-gray-900 rounded-lg p-4 max-w-2xl w-full max-h-full overflow-y-auto shadow-xl"
+      >
+        <div className="flex justify-between items-center mb-3">
+          <h3 className="text-white text-lg font-bold">Snapshot</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-white" aria-label="Discard snapshot">
+            <X size={20} />
+          </button>
+        </div>
+
+        {url && <img src={url} alt={`Snapshot of ${snapshot.streamName}`} className="w-full rounded bg-black" />}
+        <p className="text-xs text-gray-400 mt-2">
+          {snapshot.width} x {snapshot.height} · {new Date(snapshot.capturedAt).toLocaleString()}
+          {snapshot.watermarked ? ' · watermarked' : ''}
+        </p>
+
+        <div className="grid grid-cols-3 gap-2 mt-4">
+          <button onClick={() => download('png')} className={`${buttonClass} bg-gray-700 hover:bg-gray-600`}>
+            <Download className="h-4 w-4 mr-1.5" /> PNG
+          </button>
+          <button onClick={() => download('jpeg')} className={`${buttonClass} bg-gray-700 hover:bg-gray-600`}>
+            <Download className="h-4 w-4 mr-1.5" /> JPEG
+          </button>
+          <button onClick={keep} disabled={saving} className={`${buttonClass} bg-blue-600 hover:bg-blue-700`}>
+            <Save className="h-4 w-4 mr-1.5" /> Keep
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+};
@@ -26,6 +26,8 @@ export function StreamForm({ isOpen, onClose, onSubmit, stream }: StreamFormProp
   const [focused, setFocused] = useState<string | null>(null);
   const [availableStreams, setAvailableStreams] = useState<Record<string, string>>({});
   const [selectedPreset, setSelectedPreset] = useState<string>('');
+  const [presetsLoading, setPresetsLoading] = useState(false);
+  const [presetsError, setPresetsError] = useState<string | null>(null);
 
   // Reset form data when stream changes or modal opens
   useEffect(() => {
@@ -36,6 +38,8 @@ export function StreamForm({ isOpen, onClose, onSubmit, stream }: StreamFormProp
           url: stream.url,
           description: stream.description || '',
           active: stream.active,
+          // Not edited here, but a PUT without them would drop them
+          privacy_masks: stream.privacy_masks,
         });
       } else {
         setFormData({
@@ -52,17 +56,24 @@ export function StreamForm({ isOpen, onClose, onSubmit, stream }: StreamFormProp
   // Fetch available streams from backend when form opens
   useEffect(() => {
     if (isOpen) {
-      const handleAvailableStreams = (data: any) => {
-        if (data && data.streams) {
-          setAvailableStreams(data.streams);
-        }
-      };
-      
-      socketService.addEventListener('available_streams', handleAvailableStreams);
-      socketService.getAvailableStreams();
+      let cancelled = false;
+      setPresetsLoading(true);
+      setPresetsError(null);
+
+      socketService.getAvailableStreams({ timeoutMs: 5000 })
+        .then((streams) => {
+          if (!cancelled) setAvailableStreams(streams);
+        })
+        .catch((error) => {
+          console.warn('Failed to load stream presets:', error);
+          if (!cancelled) setPresetsError(error instanceof Error ? error.message : 'Failed to load presets');
+        })
+        .finally(() => {
+          if (!cancelled) setPresetsLoading(false);
+        });
       
       return () => {
-        socketService.removeEventListener('available_streams', handleAvailableStreams);
+        cancelled = true;
       };
     }
   }, [isOpen]);
@@ -256,16 +267,24 @@ export function StreamForm({ isOpen, onClose, onSubmit, stream }: StreamFormProp
                     onChange={handlePresetChange}
                     className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 px-3 py-2 text-gray-900 dark:text-gray-100 shadow-sm focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary focus:ring-opacity-50"
                   >
-                    <option value="">-- Select a preset stream --</option>
+                    <option value="">
+                      {presetsLoading ? 'Loading presets...' : '-- Select a preset stream --'}
+                    </option>
                     {Object.keys(availableStreams).map((key) => (
                       <option key={key} value={key}>
                         {key.charAt(0).toUpperCase() + key.slice(1)}
                       </option>
                     ))}
                   </select>
-                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                    Optional: Select from available stream presets or enter details manually
-                  </p>
+                  {presetsError ? (
+                    <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+                      Presets unavailable ({presetsError}). Enter the stream details manually.
+                    </p>
+                  ) : (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Optional: Select from available stream presets or enter details manually
+                    </p>
+                  )}
                 </div>
                 
                 {/* Form-level error */}
@@ -1,8 +1,35 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useSocket } from '../hooks/useSocket';
-import type { Stream } from '../types/stream';
+import { useStreamSession } from '../hooks/useStreamSession';
+import { useStreamStore } from '../store/streamStore';
+import { useRewind } from '../hooks/useRewind';
+import { useMotionDetection } from '../hooks/useMotionDetection';
+import { useMotionStore } from '../store/motionStore';
+import { useAnnotationStore } from '../store/annotationStore';
+import { useZoomStore } from '../store/zoomStore';
+import { supportsWorkerRendering } from '../services/frameRenderer';
+import type { PrivacyMask, Stream } from '../types/stream';
+import type { ZoomState } from '../types/renderer';
+import type { Snapshot } from '../types/snapshot';
+import type { MotionZoneKind, ZonePoint } from '../types/motion';
+import { captureSnapshot } from '../services/snapshots';
+import { SnapshotPanel } from './SnapshotPanel';
+import { SnapshotGallery } from './SnapshotGallery';
+import { RecordingsPanel } from './RecordingsPanel';
+import { RewindBar } from './RewindBar';
+import { MotionPanel } from './MotionPanel';
+import { MotionBar } from './MotionBar';
+import { ShapeEditor } from './ShapeEditor';
+import { PrivacyMaskSettings } from './PrivacyMaskSettings';
+import { AnnotationLayer } from './AnnotationLayer';
+import { ClipRecorder, supportsRecording } from '../services/clipRecorder';
+import { saveRecording } from '../services/recordingStore';
+import { getConfig } from '../services/config';
+import type { RecordingProgress } from '../types/recording';
+import { createSessionId, formatBytes, formatDuration } from '../utils/streamUtils';
+import toast from 'react-hot-toast';
 import { VideoPlayer } from './VideoPlayer';
+import { NO_ZOOM, isZoomed } from '../utils/zoom';
 // Lucide React Icons
 import { 
   Play, 
@@ -12,59 +39,144 @@ import {
   X, 
   RotateCcw,
   Settings,
-  Info
+  Info,
+  Camera,
+  Images,
+  Circle,
+  Film,
+  Activity,
+  PenLine,
+  Eye,
+  EyeOff
 } from 'lucide-react';
 
+// Choices offered in the settings panel; 0 asks for whatever the source delivers
+const FPS_CHOICES = [0, 30, 15, 10, 5, 1];
+const WIDTH_CHOICES = [0, 1920, 1280, 640, 320];
+const DEFAULT_JPEG_QUALITY = 75;
+const ZONE_COLORS: Record<MotionZoneKind, string> = {
+  include: '#22c55e',
+  exclude: '#ef4444',
+};
+const MASK_COLOR = '#f59e0b';
+const NO_MASKS: PrivacyMask[] = [];
+const WATERMARK_KEY = 'snapshotWatermark';
+const OPERATOR_KEY = 'snapshotOperator';
+
+// What is being drawn on the player, if anything
+type Drawing =
+  | { target: 'zone'; kind: MotionZoneKind }
+  | { target: 'mask'; shape: PrivacyMask['shape'] };
+
 interface StreamPlayerProps {
   stream: Stream;
   onPlayStatusChange?: (isPlaying: boolean) => void;
 }
 
 export function StreamPlayer({ stream, onPlayStatusChange }: StreamPlayerProps) {
+  const [autoReconnect, setAutoReconnect] = useState(true);
+  const [adaptiveFrameRate, setAdaptiveFrameRate] = useState(true);
+  const [decodeMs, setDecodeMs] = useState<number | null>(null);
+  const [mainThreadMs, setMainThreadMs] = useState<number | null>(null);
   const { 
-    streamStatus, 
-    frameData, 
+    session,
+    status: streamStatus, 
+    hasFrame, 
     error, 
-    startStream, 
-    stopStream, 
-    reconnect 
-  } = useSocket({
+    info,
+    stalledSince,
+    requestedOptions,
+    options,
+    adaptiveFps,
+    droppedFrames,
+    isActive,
+    start, 
+    stop, 
+    restart,
+    setOptions,
+    reportRendered
+  } = useStreamSession({
     rtspUrl: stream.url,
-    autoConnect: true
+    autoRestart: autoReconnect,
+    adaptive: adaptiveFrameRate,
+    rewind: true
   });
+  // Zoom and snapshots are kept per stream; zoom survives fullscreen toggles and switching streams
+  const streamKey = String(stream.id ?? stream.url);
+  const zoom = useZoomStore((state) => state.zooms[streamKey]) ?? NO_ZOOM;
+  const setZoom = useZoomStore((state) => state.setZoom);
+  const resetZoom = useZoomStore((state) => state.resetZoom);
+  const handleZoomChange = useCallback(
+    (next: ZoomState) => (isZoomed(next) ? setZoom(streamKey, next) : resetZoom(streamKey)),
+    [streamKey, setZoom, resetZoom],
+  );
+  // The slider only asks the backend once it is let go
+  const [jpegQuality, setJpegQuality] = useState<number | null>(null);
   
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [showControls, setShowControls] = useState(true);
   const [timeVisible, setTimeVisible] = useState(0);
   const [showSettings, setShowSettings] = useState(false);
   const [lastErrorTime, setLastErrorTime] = useState<number | null>(null);
-  const [autoReconnect, setAutoReconnect] = useState(true);
   const [showInfo, setShowInfo] = useState(false);
+  const [snapshot, setSnapshot] = useState<Snapshot | null>(null);
+  const [showGallery, setShowGallery] = useState(false);
+  const [watermark, setWatermark] = useState(() => localStorage.getItem(WATERMARK_KEY) !== 'false');
+  const [operator, setOperator] = useState(() => localStorage.getItem(OPERATOR_KEY) ?? '');
+  const [recorder, setRecorder] = useState<ClipRecorder | null>(null);
+  const [recordingProgress, setRecordingProgress] = useState<RecordingProgress>({ elapsedMs: 0, bytes: 0 });
+  const [showRecordings, setShowRecordings] = useState(false);
+  const recorderRef = useRef<ClipRecorder | null>(null);
+  const [showMotion, setShowMotion] = useState(false);
+  const [drawing, setDrawing] = useState<Drawing | null>(null);
+  const [frameSize, setFrameSize] = useState({ width: 0, height: 0 });
+  const {
+    settings: motionSettings,
+    zones: motionZones,
+    level: motionLevel,
+    threshold: motionThreshold,
+    active: motionActive,
+    reportMotion
+  } = useMotionDetection({ streamKey, streamName: stream.name });
+  const setMotionSettings = useMotionStore((state) => state.setSettings);
+  const updateStream = useStreamStore((state) => state.updateStream);
+  const privacyMasks = stream.privacy_masks ?? NO_MASKS;
+  // Shapes and annotations are laid over the letterboxed picture, which needs its size
+  const frameWidth = frameSize.width || info.width || 16;
+  const frameHeight = frameSize.height || info.height || 9;
+  const [annotating, setAnnotating] = useState(false);
+  const annotationsVisible = !useAnnotationStore((state) => state.hidden[streamKey]);
+  const annotationCount = useAnnotationStore((state) => state.annotations[streamKey]?.length ?? 0);
+  const setAnnotationsVisible = useAnnotationStore((state) => state.setVisible);
   
   const playerRef = useRef<HTMLDivElement>(null);
-  const frameCountRef = useRef(0);
-  const framesReceivedRef = useRef(0);
   const fpsTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const [fps, setFps] = useState(0);
-  
-  // Auto-start stream when component mounts or stream URL changes
+  const [totalFrames, setTotalFrames] = useState(0);
+  const {
+    controller: rewind,
+    live,
+    paused: rewindPaused,
+    timeline
+  } = useRewind(session, showControls);
+
+  // Another stream's history has nothing to look back at
   useEffect(() => {
-    if (stream && stream.url) {
-      console.log('Auto-starting stream:', stream.url);
-      startStream();
-    }
-    
-    return () => {
-      stopStream();
-    };
-  }, [stream.url, startStream, stopStream]);
+    rewind.goLive();
+  }, [rewind, stream.url]);
+
+  useEffect(() => {
+    setAnnotating(false);
+  }, [streamKey]);
   
-  // Start FPS counter
+  // Frames never pass through React; count them from the session's buffer once a second
   useEffect(() => {
-    // Set up FPS counter
+    let lastPosition = session.frames.position;
     fpsTimerRef.current = setInterval(() => {
-      setFps(framesReceivedRef.current);
-      framesReceivedRef.current = 0;
+      const position = session.frames.position;
+      setFps(position - lastPosition);
+      setTotalFrames(position);
+      lastPosition = position;
     }, 1000);
     
     return () => {
@@ -72,29 +184,7 @@ export function StreamPlayer({ stream, onPlayStatusChange }: StreamPlayerProps)
         clearInterval(fpsTimerRef.current);
       }
     };
-  }, []);
-  
-  // Count frames as they arrive and debug info
-  useEffect(() => {
-    if (frameData) {
-      frameCountRef.current += 1;
-      framesReceivedRef.current += 1;
-      
-      // Log every 10th frame for debugging
-      if (frameCountRef.current % 10 === 0) {
-        console.debug(`Received frame #${frameCountRef.current}`, {
-          dataLength: frameData.length,
-          fps: fps,
-          validBase64: frameData ? /^[A-Za-z0-9+/=]+$/.test(frameData) : false
-        });
-      }
-
-      // Verify frame data quality - log warnings for potential issues
-      if (frameData.length < 1000 && frameCountRef.current < 5) {
-        console.warn('Received small frame data:', frameData.length, 'bytes. This might indicate problems with the stream.');
-      }
-    }
-  }, [frameData, fps]);
+  }, [session]);
   
   // Track error state
   useEffect(() => {
@@ -104,61 +194,6 @@ export function StreamPlayer({ stream, onPlayStatusChange }: StreamPlayerProps)
     }
   }, [error]);
   
-  // Auto-reconnect on error
-  useEffect(() => {
-    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
-    
-    if (streamStatus === 'error' && autoReconnect) {
-      console.log('Auto-reconnecting in 5 seconds...');
-      reconnectTimer = setTimeout(() => {
-        console.log('Auto-reconnecting now');
-        reconnect();
-      }, 5000);
-    }
-    
-    return () => {
-      if (reconnectTimer) {
-        clearTimeout(reconnectTimer);
-      }
-    };
-  }, [streamStatus, autoReconnect, reconnect]);
-  
-  // Track connection status and attempt progressive reconnects
-  useEffect(() => {
-    let reconnectAttempts = 0;
-    const maxReconnectAttempts = 5;
-    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
-    
-    const attemptReconnect = () => {
-      if (reconnectAttempts < maxReconnectAttempts) {
-        reconnectAttempts++;
-        // Exponential backoff for reconnect timing
-        const delay = Math.min(1000 * Math.pow(2, reconnectAttempts - 1), 30000);
-        console.log(`Reconnect attempt ${reconnectAttempts}/${maxReconnectAttempts} in ${delay/1000} seconds`);
-        
-        reconnectTimer = setTimeout(() => {
-          reconnect();
-        }, delay);
-      } else {
-        console.log(`Failed to reconnect after ${maxReconnectAttempts} attempts`);
-      }
-    };
-    
-    if (streamStatus === 'error' && autoReconnect) {
-      attemptReconnect();
-    } else if (streamStatus === 'playing') {
-      // Reset reconnect attempts when successfully connected
-      reconnectAttempts = 0;
-      console.log('Stream connected successfully');
-    }
-    
-    return () => {
-      if (reconnectTimer) {
-        clearTimeout(reconnectTimer);
-      }
-    };
-  }, [streamStatus, autoReconnect, reconnect, stream.id]);
-  
   // Notify parent component of play status changes
   useEffect(() => {
     if (onPlayStatusChange) {
@@ -218,7 +253,6 @@ export function StreamPlayer({ stream, onPlayStatusChange }: StreamPlayerProps)
   // Clean up on unmount
   useEffect(() => {
     return () => {
-      stopStream();
       if (fpsTimerRef.current) {
         clearInterval(fpsTimerRef.current);
       }
@@ -228,15 +262,144 @@ export function StreamPlayer({ stream, onPlayStatusChange }: StreamPlayerProps)
         document.exitFullscreen().catch(err => console.error('Error exiting fullscreen:', err));
       }
     };
-  }, [stopStream]);
+  }, []);
+
+  // Grabs the frame on screen, live or rewound, at the camera's resolution rather than the canvas's
+  const takeSnapshot = async () => {
+    const frame = rewind.latest();
+    if (!frame) {
+      toast.error('There is no frame to capture yet');
+      return;
+    }
+    try {
+      setSnapshot(await captureSnapshot(frame, { streamKey, streamName: stream.name, watermark, operator, privacyMasks }));
+    } catch (err) {
+      console.error('Failed to capture snapshot:', err);
+      toast.error('Could not capture a snapshot');
+    }
+  };
+
+  // S takes a snapshot, unless the user is typing somewhere. Only the focused player reacts,
+  // other players on the page (background watchers, the wall) keep quiet.
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key.toLowerCase() !== 's' || event.ctrlKey || event.metaKey || event.altKey || event.repeat) return;
+    const target = event.target as HTMLElement;
+    if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+    event.preventDefault();
+    takeSnapshot();
+  };
+
+  const toggleRecording = async () => {
+    if (recorder) {
+      recorder.stop();
+      return;
+    }
+
+    const { maxRecordingMb, maxRecordingSeconds } = getConfig();
+    const next = new ClipRecorder({
+      frames: session.frames,
+      maxBytes: maxRecordingMb * 1024 * 1024,
+      maxDurationMs: maxRecordingSeconds * 1000,
+      privacyMasks,
+    });
+    try {
+      await next.start();
+    } catch (err) {
+      console.error('Failed to start recording:', err);
+      toast.error(err instanceof Error ? err.message : 'Could not start recording');
+      return;
+    }
+    recorderRef.current = next;
+    setRecorder(next);
+    setRecordingProgress({ elapsedMs: 0, bytes: 0 });
+
+    // Saved however the recording ends, also when the player goes away meanwhile
+    next.finished.then(async (clip) => {
+      if (recorderRef.current === next) recorderRef.current = null;
+      setRecorder((current) => (current === next ? null : current));
+      try {
+        await saveRecording({ ...clip, streamKey, streamName: stream.name });
+        const limit = clip.stopReason === 'size' || clip.stopReason === 'duration' ? ' (limit reached)' : '';
+        toast.success(`Recording saved${limit}`);
+      } catch (err) {
+        console.error('Failed to save recording:', err);
+        toast.error('Could not save the recording');
+      }
+    });
+  };
+
+  // Elapsed time and size while recording
+  useEffect(() => {
+    if (!recorder) return;
+    const timer = setInterval(() => setRecordingProgress(recorder.getProgress()), 500);
+    return () => clearInterval(timer);
+  }, [recorder]);
+
+  // Masks added mid-recording are covered from the next frame on
+  useEffect(() => {
+    recorder?.setPrivacyMasks(privacyMasks);
+  }, [recorder, privacyMasks]);
+
+  const saveMasks = async (masks: PrivacyMask[]) => {
+    if (stream.id === undefined) return;
+    await updateStream(stream.id, { ...stream, privacy_masks: masks });
+    const { error: saveError, streams } = useStreamStore.getState();
+    if (saveError) {
+      toast.error(`Could not save the privacy masks: ${saveError}`);
+      return;
+    }
+    // A backend that doesn't know the field drops it without an error; the masks would then
+    // be gone after a reload, so say so instead of showing them as saved
+    const saved = streams.find((candidate) => candidate.id === stream.id)?.privacy_masks ?? [];
+    if (saved.length !== masks.length || saved.some((mask, index) => mask.id !== masks[index].id)) {
+      toast.error('The backend did not store the privacy masks, they are not applied');
+    }
+  };
+
+  const startDrawing = (next: Drawing) => {
+    setShowMotion(false);
+    setShowSettings(false);
+    setAnnotating(false);
+    // Shapes are drawn over the whole picture
+    resetZoom(streamKey);
+    setDrawing(next);
+  };
+
+  // Back to the panel the drawing was started from
+  const finishDrawing = useCallback(() => {
+    if (drawing?.target === 'zone') setShowMotion(true);
+    if (drawing?.target === 'mask') setShowSettings(true);
+    setDrawing(null);
+  }, [drawing]);
+
+  const startAnnotating = () => {
+    setAnnotationsVisible(streamKey, true);
+    setAnnotating(true);
+  };
+
+  const finishAnnotating = useCallback(() => setAnnotating(false), []);
+
+  const addShape = (points: ZonePoint[]) => {
+    if (drawing?.target === 'zone') {
+      const zone = { id: createSessionId(), kind: drawing.kind, points };
+      setMotionSettings(streamKey, { ...motionSettings, zones: [...motionSettings.zones, zone] });
+    } else if (drawing?.target === 'mask') {
+      const mask: PrivacyMask = { id: createSessionId(), shape: drawing.shape, style: 'fill', points };
+      saveMasks([...privacyMasks, mask]);
+    }
+    finishDrawing();
+  };
+
+  // Stop (and save) a running recording when the player goes away or switches streams
+  useEffect(() => () => recorderRef.current?.stop(), [stream.url]);
 
   const handlePlay = () => {
     console.log('Starting stream');
-    startStream();
+    start();
   };
 
   const handleStop = () => {
-    stopStream();
+    stop();
   };
   
   const toggleFullscreen = () => {
@@ -281,7 +444,7 @@ export function StreamPlayer({ stream, onPlayStatusChange }: StreamPlayerProps)
     try {
       const date = new Date(dateString);
       return date.toLocaleDateString();
-    } catch (error) {
+    } catch {
       return 'Invalid date';
     }
   };
@@ -293,7 +456,7 @@ export function StreamPlayer({ stream, onPlayStatusChange }: StreamPlayerProps)
     try {
       const date = new Date(dateString);
       return date.toLocaleTimeString();
-    } catch (error) {
+    } catch {
       return '';
     }
   };
@@ -305,18 +468,87 @@ export function StreamPlayer({ stream, onPlayStatusChange }: StreamPlayerProps)
         isFullscreen 
           ? 'fixed inset-0 z-50 w-screen h-screen' 
           : 'w-full h-full rounded-2xl min-h-[400px]'
-      }`}
+      } focus:outline-none`}
+      // Focusable, so clicking the player points keyboard shortcuts at it
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
       onMouseEnter={() => setShowControls(true)}
     >
       {/* Stream frame display */}
       <VideoPlayer
         streamUrl={stream.url}
-        isPlaying={streamStatus === 'playing'}
-        isLoading={streamStatus === 'loading'}
+        isPlaying={streamStatus === 'playing' || streamStatus === 'stalled'}
+        // A stalled stream being restarted keeps its last frame on screen
+        isLoading={(streamStatus === 'connecting' || streamStatus === 'starting') && stalledSince === null}
+        isStalled={streamStatus === 'stalled'}
+        stalledSince={stalledSince}
         error={error || undefined}
-        frameData={frameData}
+        frames={rewind}
+        // A stopped stream can still be rewound
+        hasFrame={hasFrame || !live}
+        onFrameRendered={reportRendered}
+        onRenderStats={(stats, handoffMs) => {
+          if (stats.rendered > 0) {
+            setDecodeMs(stats.decodeMs);
+            setMainThreadMs(handoffMs);
+            setFrameSize((current) => (
+              current.width === stats.width && current.height === stats.height ? current : { width: stats.width, height: stats.height }
+            ));
+          }
+        }}
+        zoom={zoom}
+        onZoomChange={handleZoomChange}
+        behindMs={live ? null : timeline?.behindMs ?? 0}
+        motionZones={motionZones}
+        privacyMasks={privacyMasks}
+        // Rewound frames aren't news
+        onMotion={live ? reportMotion : undefined}
       />
+
+      {motionSettings.enabled && live && hasFrame && (
+        <MotionBar level={motionLevel} threshold={motionThreshold} active={motionActive} />
+      )}
+
+      {(annotationsVisible || annotating) && !drawing && (
+        <AnnotationLayer
+          streamKey={streamKey}
+          frameWidth={frameWidth}
+          frameHeight={frameHeight}
+          zoom={zoom}
+          editing={annotating}
+          onDone={finishAnnotating}
+        />
+      )}
+
+      {drawing && (
+        <ShapeEditor
+          shapes={drawing.target === 'zone'
+            ? motionSettings.zones.map((zone) => ({ id: zone.id, points: zone.points, color: ZONE_COLORS[zone.kind] }))
+            : privacyMasks.map((mask) => ({ id: mask.id, points: mask.points, color: MASK_COLOR }))}
+          tool={drawing.target === 'zone' ? 'polygon' : drawing.shape}
+          color={drawing.target === 'zone' ? ZONE_COLORS[drawing.kind] : MASK_COLOR}
+          label={drawing.target === 'zone'
+            ? (drawing.kind === 'include' ? 'Watch zone' : 'Ignore zone')
+            : 'Privacy mask'}
+          frameWidth={frameWidth}
+          frameHeight={frameHeight}
+          onDone={addShape}
+          onCancel={finishDrawing}
+        />
+      )}
       
+      {/* Stays up while recording, even with the controls hidden */}
+      {recorder && (
+        <button
+          onClick={() => recorder.stop()}
+          className="absolute top-16 left-4 z-20 flex items-center gap-2 px-2 py-1 rounded bg-black/70 text-white text-xs tabular-nums"
+          title={`Stops at ${getConfig().maxRecordingMb} MB or ${formatDuration(getConfig().maxRecordingSeconds * 1000)}; click to stop now`}
+        >
+          <span className="h-2.5 w-2.5 rounded-full bg-red-500 animate-pulse" />
+          REC {formatDuration(recordingProgress.elapsedMs)} · {formatBytes(recordingProgress.bytes)}
+        </button>
+      )}
+
       {/* Controls overlay */}
       <AnimatePresence>
         {showControls && (
@@ -336,6 +568,52 @@ export function StreamPlayer({ stream, onPlayStatusChange }: StreamPlayerProps)
               </div>
               
               <div className="flex items-center space-x-2">
+                <button
+                  onClick={takeSnapshot}
+                  disabled={!hasFrame}
+                  className="text-white p-2 rounded-full hover:bg-white/20 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                  title="Take Snapshot (S)"
+                >
+                  <Camera className="w-5 h-5" />
+                </button>
+
+                <button
+                  onClick={() => setShowGallery(true)}
+                  className="text-white p-2 rounded-full hover:bg-white/20 transition-colors"
+                  title="Snapshots"
+                >
+                  <Images className="w-5 h-5" />
+                </button>
+
+                {supportsRecording() && (
+                  <>
+                    <button
+                      onClick={toggleRecording}
+                      disabled={!recorder && !hasFrame}
+                      className="text-white p-2 rounded-full hover:bg-white/20 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                      title={recorder ? 'Stop Recording' : 'Record'}
+                    >
+                      <Circle className={`w-5 h-5 ${recorder ? 'fill-red-500 text-red-500' : ''}`} />
+                    </button>
+
+                    <button
+                      onClick={() => setShowRecordings(true)}
+                      className="text-white p-2 rounded-full hover:bg-white/20 transition-colors"
+                      title="Recordings"
+                    >
+                      <Film className="w-5 h-5" />
+                    </button>
+                  </>
+                )}
+
+                <button
+                  onClick={() => setShowMotion(true)}
+                  className={`p-2 rounded-full hover:bg-white/20 transition-colors ${motionSettings.enabled ? 'text-green-400' : 'text-white'}`}
+                  title="Motion Detection"
+                >
+                  <Activity className="w-5 h-5" />
+                </button>
+
                 <button
                   onClick={toggleInfo}
                   className="text-white p-2 rounded-full hover:bg-white/20 transition-colors"
@@ -383,44 +661,76 @@ export function StreamPlayer({ stream, onPlayStatusChange }: StreamPlayerProps)
             </div>
             
             {/* Bottom controls */}
-            <div className="absolute bottom-0 left-0 right-0 p-4 flex justify-between items-center pointer-events-auto">
-              <div className="flex items-center space-x-3">
-                {streamStatus === 'playing' ? (
-                  <button
-                    onClick={handleStop}
-                    className="bg-white text-black p-2 rounded-full hover:bg-gray-200 transition-colors"
-                    title="Stop Stream"
-                  >
-                    <Pause className="w-5 h-5" />
-                  </button>
-                ) : (
-                  <button
-                    onClick={handlePlay}
-                    className="bg-white text-black p-2 rounded-full hover:bg-gray-200 transition-colors"
-                    title="Start Stream"
-                  >
-                    <Play className="w-5 h-5" />
-                  </button>
-                )}
-              </div>
+            <div className="absolute bottom-0 left-0 right-0 p-4 space-y-2 pointer-events-auto">
+              <RewindBar controller={rewind} live={live} paused={rewindPaused} timeline={timeline} />
+
+              <div className="flex justify-between items-center">
+                <div className="flex items-center space-x-3">
+                  {isActive ? (
+                    <button
+                      onClick={handleStop}
+                      className="bg-white text-black p-2 rounded-full hover:bg-gray-200 transition-colors"
+                      title="Stop Stream"
+                    >
+                      <Pause className="w-5 h-5" />
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handlePlay}
+                      className="bg-white text-black p-2 rounded-full hover:bg-gray-200 transition-colors"
+                      title="Start Stream"
+                    >
+                      <Play className="w-5 h-5" />
+                    </button>
+                  )}
+                </div>
               
-              <div className="flex items-center space-x-2">
-                {streamStatus === 'playing' && (
-                  <span className="text-white text-sm bg-black/50 px-2 py-1 rounded">
-                    {fps} FPS
-                  </span>
-                )}
-                
-                {error && (
+                <div className="flex items-center space-x-2">
+                  {annotationCount > 0 && (
+                    <button
+                      onClick={() => setAnnotationsVisible(streamKey, !annotationsVisible)}
+                      className="text-white p-2 rounded-full hover:bg-white/20 transition-colors"
+                      title={annotationsVisible ? 'Hide Annotations' : 'Show Annotations'}
+                    >
+                      {annotationsVisible ? <Eye className="w-5 h-5" /> : <EyeOff className="w-5 h-5" />}
+                    </button>
+                  )}
+
                   <button
-                    onClick={reconnect}
-                    className="flex items-center space-x-1 text-white bg-red-600 hover:bg-red-700 px-2 py-1 rounded text-sm"
-                    title="Reconnect"
+                    onClick={startAnnotating}
+                    className="text-white p-2 rounded-full hover:bg-white/20 transition-colors"
+                    title="Annotate"
                   >
-                    <RotateCcw className="w-3 h-3" />
-                    <span>Reconnect</span>
+                    <PenLine className="w-5 h-5" />
                   </button>
-                )}
+
+                  {isZoomed(zoom) && (
+                    <button
+                      onClick={() => resetZoom(streamKey)}
+                      className="text-white text-sm bg-black/50 hover:bg-black/70 px-2 py-1 rounded"
+                      title="Reset zoom (double-click the picture)"
+                    >
+                      {zoom.scale.toFixed(1)}×
+                    </button>
+                  )}
+
+                  {streamStatus === 'playing' && (
+                    <span className="text-white text-sm bg-black/50 px-2 py-1 rounded">
+                      {fps} FPS
+                    </span>
+                  )}
+                
+                  {error && (
+                    <button
+                      onClick={restart}
+                      className="flex items-center space-x-1 text-white bg-red-600 hover:bg-red-700 px-2 py-1 rounded text-sm"
+                      title="Reconnect"
+                    >
+                      <RotateCcw className="w-3 h-3" />
+                      <span>Reconnect</span>
+                    </button>
+                  )}
+                </div>
               </div>
             </div>
           </motion.div>
@@ -441,7 +751,7 @@ export function StreamPlayer({ stream, onPlayStatusChange }: StreamPlayerProps)
               initial={{ scale: 0.9, opacity: 0 }}
               animate={{ scale: 1, opacity: 1 }}
               exit={{ scale: 0.9, opacity: 0 }}
-              className="bg-gray-900 rounded-lg p-6 max-w-md w-full shadow-xl"
+              className="bg-gray-900 rounded-lg p-6 max-w-md w-full max-h-full overflow-y-auto shadow-xl"
             >
               <div className="flex justify-between items-center mb-4">
                 <h3 className="text-white text-lg font-bold">Stream Settings</h3>
@@ -488,7 +798,139 @@ export function StreamPlayer({ stream, onPlayStatusChange }: StreamPlayerProps)
                     </label>
                   </div>
                 </div>
+
+                <div className="pt-4 border-t border-gray-800 space-y-3">
+                  <h4 className="text-gray-300 text-sm font-medium">Quality</h4>
+
+                  <div className="flex items-center justify-between">
+                    <label htmlFor={`fps-${stream.id}`} className="text-gray-400 text-sm">Frame rate</label>
+                    <select
+                      id={`fps-${stream.id}`}
+                      value={requestedOptions.fps ?? 0}
+                      onChange={(e) => setOptions({ fps: Number(e.target.value) })}
+                      className="bg-gray-800 border border-gray-700 rounded-md px-2 py-1 text-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {FPS_CHOICES.map((choice) => (
+                        <option key={choice} value={choice}>{choice === 0 ? 'Source' : `${choice} fps`}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <label htmlFor={`width-${stream.id}`} className="text-gray-400 text-sm">Max width</label>
+                    <select
+                      id={`width-${stream.id}`}
+                      value={requestedOptions.max_width ?? 0}
+                      onChange={(e) => setOptions({ max_width: Number(e.target.value) })}
+                      className="bg-gray-800 border border-gray-700 rounded-md px-2 py-1 text-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {WIDTH_CHOICES.map((choice) => (
+                        <option key={choice} value={choice}>{choice === 0 ? 'Source' : `${choice} px`}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <div className="flex items-center justify-between mb-1">
+                      <label htmlFor={`quality-${stream.id}`} className="text-gray-400 text-sm">JPEG quality</label>
+                      <span className="text-gray-300 text-sm">
+                        {jpegQuality ?? requestedOptions.jpeg_quality ?? options.jpeg_quality ?? DEFAULT_JPEG_QUALITY}
+                      </span>
+                    </div>
+                    <input
+                      id={`quality-${stream.id}`}
+                      type="range"
+                      min={10}
+                      max={100}
+                      step={5}
+                      value={jpegQuality ?? requestedOptions.jpeg_quality ?? options.jpeg_quality ?? DEFAULT_JPEG_QUALITY}
+                      onChange={(e) => setJpegQuality(Number(e.target.value))}
+                      onPointerUp={() => {
+                        if (jpegQuality !== null) setOptions({ jpeg_quality: jpegQuality });
+                        setJpegQuality(null);
+                      }}
+                      onKeyUp={() => {
+                        if (jpegQuality !== null) setOptions({ jpeg_quality: jpegQuality });
+                        setJpegQuality(null);
+                      }}
+                      className="w-full accent-blue-600"
+                    />
+                  </div>
+
+                  <div className="flex items-center justify-between">
+                    <label className="text-gray-300 text-sm font-medium">
+                      Lower frame rate when playback lags
+                    </label>
+                    <div className="relative inline-block w-10 mr-2 align-middle select-none">
+                      <input 
+                        type="checkbox" 
+                        id={`toggle-adaptive-${stream.id}`}
+                        checked={adaptiveFrameRate} 
+                        onChange={(e) => setAdaptiveFrameRate(e.target.checked)}
+                        className="sr-only"
+                      />
+                      <label 
+                        htmlFor={`toggle-adaptive-${stream.id}`}
+                        className={`block overflow-hidden h-6 rounded-full bg-gray-700 cursor-pointer ${adaptiveFrameRate ? 'bg-blue-600' : ''}`}
+                      >
+                        <span 
+                          className={`block h-6 w-6 rounded-full bg-white shadow transform transition-transform duration-200 ease-in-out ${adaptiveFrameRate ? 'translate-x-4' : 'translate-x-0'}`}
+                        ></span>
+                      </label>
+                    </div>
+                  </div>
+                </div>
                 
+                <div className="pt-4 border-t border-gray-800 space-y-3">
+                  <h4 className="text-gray-300 text-sm font-medium">Snapshots</h4>
+                  <div className="flex items-center justify-between">
+                    <label className="text-gray-400 text-sm">
+                      Watermark with name, time and operator
+                    </label>
+                    <div className="relative inline-block w-10 mr-2 align-middle select-none">
+                      <input 
+                        type="checkbox" 
+                        id={`toggle-watermark-${stream.id}`}
+                        checked={watermark} 
+                        onChange={(e) => {
+                          setWatermark(e.target.checked);
+                          localStorage.setItem(WATERMARK_KEY, String(e.target.checked));
+                        }}
+                        className="sr-only"
+                      />
+                      <label 
+                        htmlFor={`toggle-watermark-${stream.id}`}
+                        className={`block overflow-hidden h-6 rounded-full bg-gray-700 cursor-pointer ${watermark ? 'bg-blue-600' : ''}`}
+                      >
+                        <span 
+                          className={`block h-6 w-6 rounded-full bg-white shadow transform transition-transform duration-200 ease-in-out ${watermark ? 'translate-x-4' : 'translate-x-0'}`}
+                        ></span>
+                      </label>
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between gap-3">
+                    <label htmlFor={`operator-${stream.id}`} className="text-gray-400 text-sm">Operator</label>
+                    <input
+                      id={`operator-${stream.id}`}
+                      type="text"
+                      value={operator}
+                      placeholder="Optional"
+                      onChange={(e) => {
+                        setOperator(e.target.value);
+                        localStorage.setItem(OPERATOR_KEY, e.target.value);
+                      }}
+                      className="flex-1 max-w-[12rem] bg-gray-800 border border-gray-700 rounded-md px-2 py-1 text-gray-300 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                </div>
+
+                <PrivacyMaskSettings
+                  masks={privacyMasks}
+                  onChange={saveMasks}
+                  onDraw={(shape) => startDrawing({ target: 'mask', shape })}
+                  disabled={stream.id === undefined}
+                />
+
                 <div className="pt-4 border-t border-gray-800">
                   <h4 className="text-gray-300 text-sm font-medium mb-2">Stream Stats</h4>
                   <div className="grid grid-cols-2 gap-2 text-xs text-gray-400">
@@ -496,13 +938,50 @@ export function StreamPlayer({ stream, onPlayStatusChange }: StreamPlayerProps)
                     <div className="text-right capitalize text-gray-300">{streamStatus}</div>
                     
                     <div>Resolution:</div>
-                    <div className="text-right text-gray-300">640 x 480</div>
+                    <div className="text-right text-gray-300">
+                      {info.width && info.height ? `${info.width} x ${info.height}` : 'Unknown'}
+                    </div>
                     
                     <div>Current FPS:</div>
                     <div className="text-right text-gray-300">{fps}</div>
                     
                     <div>Total Frames:</div>
-                    <div className="text-right text-gray-300">{frameCountRef.current}</div>
+                    <div className="text-right text-gray-300">{totalFrames}</div>
+
+                    {decodeMs !== null && (
+                      <>
+                        <div>Decode Time:</div>
+                        <div className="text-right text-gray-300">
+                          {decodeMs.toFixed(1)} ms{supportsWorkerRendering() ? ' (worker)' : ''}
+                        </div>
+                      </>
+                    )}
+
+                    {mainThreadMs !== null && (
+                      <>
+                        <div>Main Thread:</div>
+                        <div className="text-right text-gray-300">{mainThreadMs.toFixed(2)} ms / frame</div>
+                      </>
+                    )}
+
+                    {options.fps !== undefined && (
+                      <>
+                        <div>Delivered:</div>
+                        <div className="text-right text-gray-300">
+                          {options.fps} fps, {options.max_width ? `${options.max_width} px` : 'source width'}, Q{options.jpeg_quality ?? '?'}
+                        </div>
+                      </>
+                    )}
+
+                    {adaptiveFps !== null && (
+                      <>
+                        <div>Lowered to:</div>
+                        <div className="text-right text-yellow-400">{adaptiveFps} fps (playback lagging)</div>
+                      </>
+                    )}
+
+                    <div>Dropped Frames:</div>
+                    <div className="text-right text-gray-300">{droppedFrames}</div>
                     
                     {lastErrorTime && (
                       <>
@@ -519,7 +998,7 @@ export function StreamPlayer({ stream, onPlayStatusChange }: StreamPlayerProps)
                   <button
                     onClick={() => {
                       toggleSettings();
-                      reconnect();
+                      restart();
                     }}
                     className="w-full bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded-md font-medium text-sm transition-colors"
                   >
@@ -581,7 +1060,8 @@ export function StreamPlayer({ stream, onPlayStatusChange }: StreamPlayerProps)
                   <div className="flex items-center mt-1">
                     <span className={`inline-block w-3 h-3 rounded-full mr-2 ${
                       streamStatus === 'playing' ? 'bg-green-500' : 
-                      streamStatus === 'loading' ? 'bg-yellow-500' :
+                      streamStatus === 'stalled' ? 'bg-orange-500' :
+                      streamStatus === 'connecting' || streamStatus === 'starting' ? 'bg-yellow-500' :
                       streamStatus === 'error' ? 'bg-red-500' : 'bg-gray-500'
                     }`}></span>
                     <span className="text-white capitalize">{streamStatus}</span>
@@ -599,6 +1079,44 @@ export function StreamPlayer({ stream, onPlayStatusChange }: StreamPlayerProps)
           </motion.div>
         )}
       </AnimatePresence>
+
+      {/* Snapshot preview and gallery */}
+      <AnimatePresence>
+        {snapshot && (
+          <SnapshotPanel key="snapshot-panel" snapshot={snapshot} onClose={() => setSnapshot(null)} />
+        )}
+      </AnimatePresence>
+      <AnimatePresence>
+        {showRecordings && (
+          <RecordingsPanel
+            key="recordings-panel"
+            streamKey={streamKey}
+            streamName={stream.name}
+            onClose={() => setShowRecordings(false)}
+          />
+        )}
+      </AnimatePresence>
+      <AnimatePresence>
+        {showMotion && (
+          <MotionPanel
+            key="motion-panel"
+            streamKey={streamKey}
+            streamName={stream.name}
+            onDrawZone={(kind) => startDrawing({ target: 'zone', kind })}
+            onClose={() => setShowMotion(false)}
+          />
+        )}
+      </AnimatePresence>
+      <AnimatePresence>
+        {showGallery && (
+          <SnapshotGallery
+            key="snapshot-gallery"
+            streamKey={streamKey}
+            streamName={stream.name}
+            onClose={() => setShowGallery(false)}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,176 @@
+import { useEffect, useRef, useState } from 'react';
+import { useStreamSession } from '../hooks/useStreamSession';
+import { createWallRenderer } from '../services/wallRenderer';
+import type { WallRenderer, WallTileHandle } from '../services/wallRenderer';
+import type { PrivacyMask, Stream, StreamStatus } from '../types/stream';
+import type { TileSettings } from '../types/renderer';
+import { VideoPlayer } from './VideoPlayer';
+
+export type WallRendererKind = 'webgl' | '2d';
+
+interface StreamWallProps {
+  streams: Stream[];
+  columns: number;
+  rendererKind: WallRendererKind;
+  settingsFor: (stream: Stream) => TileSettings;
+  selectedId: string | number | null;
+  onSelect: (id: string | number) => void;
+  // WebGL isn't available or the GPU dropped the context; the wall is drawn in 2D meanwhile
+  onWebGLUnavailable: () => void;
+}
+
+interface WallTileProps {
+  stream: Stream;
+  renderer: WallRenderer | null;
+  settings: TileSettings;
+  selected: boolean;
+  onSelect: () => void;
+}
+
+const NO_MASKS: PrivacyMask[] = [];
+
+const STATUS_LABELS: Partial<Record<StreamStatus, string>> = {
+  connecting: 'Connecting...',
+  starting: 'Starting...',
+  stalled: 'Stalled',
+  stopped: 'Stopped',
+};
+
+const WallTile = ({ stream, renderer, settings, selected, onSelect }: WallTileProps) => {
+  const { session, status, hasFrame, error, reportRendered } = useStreamSession({ rtspUrl: stream.url });
+  const tileRef = useRef<HTMLDivElement>(null);
+  const handleRef = useRef<WallTileHandle | null>(null);
+  const settingsRef = useRef(settings);
+  const privacyMasks = stream.privacy_masks ?? NO_MASKS;
+  const privacyMasksRef = useRef(privacyMasks);
+
+  useEffect(() => {
+    settingsRef.current = settings;
+    handleRef.current?.setSettings(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    privacyMasksRef.current = privacyMasks;
+    handleRef.current?.setPrivacyMasks(privacyMasks);
+  }, [privacyMasks]);
+
+  useEffect(() => {
+    const element = tileRef.current;
+    if (!renderer || !element) return;
+
+    const handle = renderer.addTile({
+      element,
+      frames: session.frames,
+      settings: settingsRef.current,
+      privacyMasks: privacyMasksRef.current,
+      onRendered: reportRendered,
+    });
+    handleRef.current = handle;
+    return () => {
+      handle.remove();
+      handleRef.current = null;
+    };
+  }, [renderer, session, reportRendered]);
+
+  const label = error ?? STATUS_LABELS[status];
+
+  return (
+    <div
+      ref={tileRef}
+      onClick={onSelect}
+      className={`relative aspect-video rounded-lg overflow-hidden cursor-pointer ring-2 ${
+        selected ? 'ring-blue-500' : 'ring-transparent hover:ring-gray-500'
+      } ${renderer ? '' : 'bg-black'}`}
+    >
+      {!renderer && (
+        // The 2D path has no shader, CSS filters give the same picture
+        <div className="absolute inset-0" style={{ filter: `brightness(${settings.brightness}) contrast(${settings.contrast})` }}>
+          <VideoPlayer
+            streamUrl={stream.url}
+            isPlaying={status === 'playing' || status === 'stalled'}
+            isLoading={status === 'connecting' || status === 'starting'}
+            isStalled={status === 'stalled'}
+            error={error || undefined}
+            frames={session.frames}
+            hasFrame={hasFrame}
+            onFrameRendered={reportRendered}
+            privacyMasks={privacyMasks}
+          />
+        </div>
+      )}
+      <div className="absolute top-0 inset-x-0 px-2 py-1 bg-gradient-to-b from-black/70 to-transparent text-white text-xs font-medium truncate pointer-events-none">
+        {stream.name}
+      </div>
+      {renderer && label && (
+        <div className="absolute inset-0 flex items-center justify-center text-center p-2 text-xs text-gray-300 pointer-events-none">
+          <span className={error ? 'text-red-400' : ''}>{label}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * A grid of live streams. With WebGL every tile is painted into one canvas behind the grid;
+ * otherwise each tile has its own 2D player.
+ */
+export const StreamWall = ({
+  streams,
+  columns,
+  rendererKind,
+  settingsFor,
+  selectedId,
+  onSelect,
+  onWebGLUnavailable,
+}: StreamWallProps) => {
+  const canvasHostRef = useRef<HTMLDivElement>(null);
+  const [renderer, setRenderer] = useState<WallRenderer | null>(null);
+  const onUnavailableRef = useRef(onWebGLUnavailable);
+
+  useEffect(() => {
+    onUnavailableRef.current = onWebGLUnavailable;
+  }, [onWebGLUnavailable]);
+
+  useEffect(() => {
+    const host = canvasHostRef.current;
+    if (rendererKind !== 'webgl' || !host) return;
+
+    // A fresh canvas per renderer, a context that was given back can't be used again
+    const canvas = document.createElement('canvas');
+    canvas.style.cssText = 'display: block; width: 100%; height: 100%;';
+    host.appendChild(canvas);
+
+    const created = createWallRenderer(canvas, () => {
+      setRenderer(null);
+      onUnavailableRef.current();
+    });
+    if (!created) onUnavailableRef.current();
+    setRenderer(created);
+
+    return () => {
+      created?.dispose();
+      setRenderer(null);
+      canvas.remove();
+    };
+  }, [rendererKind]);
+
+  return (
+    <div className="relative">
+      <div ref={canvasHostRef} className="absolute inset-0 pointer-events-none" />
+      <div className="relative grid gap-3" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+        {streams.map((stream) => (
+          <WallTile
+            key={stream.id ?? stream.url}
+            stream={stream}
+            renderer={renderer}
+            settings={settingsFor(stream)}
+            selected={stream.id !== undefined && stream.id === selectedId}
+            onSelect={() => {
+              if (stream.id !== undefined) onSelect(stream.id);
+            }}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
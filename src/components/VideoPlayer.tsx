@@ -1,112 +1,240 @@
 import { useEffect, useRef, useState, memo } from 'react';
 import { motion } from 'framer-motion';
+import type { FrameRenderStats, ZoomState } from '../types/renderer';
+import type { MotionZone } from '../types/motion';
+import type { PrivacyMask } from '../types/stream';
+import { createFrameRenderer } from '../services/frameRenderer';
+import type { FrameRenderer } from '../services/frameRenderer';
+import type { FrameSource } from '../services/frameBuffer';
+import { onPaint } from '../services/paintLoop';
+import { NO_ZOOM, clampZoom, isZoomed, panBy, zoomAt, zoomTransform } from '../utils/zoom';
+import { formatDuration } from '../utils/streamUtils';
+import { ZoomMinimap } from './ZoomMinimap';
 
 interface VideoPlayerProps {
-  streamUrl?: string; // For context, might not be directly used if frameData is primary
+  streamUrl?: string; // For context, might not be directly used if frame is primary
   isPlaying: boolean;
   isLoading: boolean;
+  isStalled?: boolean; // No frames for a while, the last one stays on screen
+  stalledSince?: number | null; // When the last frame arrived, kept while a stalled stream restarts
   error?: string; // Error from the WebSocket connection
-  frameData?: string | null; // Expected to be a pure base64 encoded JPEG string
+  frames?: FrameSource | null; // Read once per display refresh, only the newest frame is painted
+  hasFrame?: boolean; // Whether there is a frame on the canvas, e.g. the last one of a stopped stream
+  onFrameRendered?: (count: number) => void; // Reports painted frames, frames skipped to catch up are not counted
+  // Decode timings a few times a second, with the main-thread time spent handing each frame over
+  onRenderStats?: (stats: FrameRenderStats, mainThreadMs: number) => void;
+  zoom?: ZoomState; // Digital zoom; wheel, pinch, drag and double-click only work with onZoomChange
+  onZoomChange?: (zoom: ZoomState) => void;
+  behindMs?: number | null; // How far a rewound picture is behind live, shown instead of the LIVE badge
+  motionZones?: MotionZone[] | null; // Run motion detection on the decoded frames, null turns it off
+  onMotion?: (level: number) => void; // Highest motion level a few times a second while detection is on
+  privacyMasks?: PrivacyMask[]; // Covered on the canvas and the minimap before anything is shown
 }
 
+// Wheel delta in pixels that doubles or halves the zoom
+const WHEEL_PIXELS_PER_DOUBLING = 350;
+const LINE_HEIGHT_PX = 16;
+const NO_MASKS: PrivacyMask[] = [];
+
 export const VideoPlayer = memo(({ 
   isPlaying, 
   isLoading, 
+  isStalled = false,
+  stalledSince = null,
   error: connectionError, // Renamed to avoid confusion with internal imageError
-  frameData
+  frames = null,
+  hasFrame = false,
+  onFrameRendered,
+  onRenderStats,
+  zoom = NO_ZOOM,
+  onZoomChange,
+  behindMs = null,
+  motionZones = null,
+  onMotion,
+  privacyMasks = NO_MASKS
 }: VideoPlayerProps) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const imageRef = useRef<HTMLImageElement | null>(null); // To hold the Image object
+  // The canvas is created by hand so each renderer gets a fresh one: a canvas handed
+  // to a worker can't be taken back, and StrictMode mounts effects twice
+  const canvasHostRef = useRef<HTMLDivElement>(null);
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const framesRef = useRef(frames);
+  const zoomRef = useRef(zoom);
+  const onZoomChangeRef = useRef(onZoomChange);
+  const [aspect, setAspect] = useState(16 / 9);
+  const onFrameRenderedRef = useRef(onFrameRendered);
+  const onRenderStatsRef = useRef(onRenderStats);
+  const onMotionRef = useRef(onMotion);
+  const motionZonesRef = useRef(motionZones);
+  const privacyMasksRef = useRef(privacyMasks);
+  const rendererRef = useRef<FrameRenderer | null>(null);
   
   const [internalImageError, setInternalImageError] = useState<string | null>(null);
-  const [lastFrameTime, setLastFrameTime] = useState<number>(0);
 
-  // Initialize and clean up the Image object
   useEffect(() => {
-    // Create a new Image object when the component mounts
-    imageRef.current = new Image();
-    const img = imageRef.current;
-
-    img.onload = () => {
-      if (!canvasRef.current || !img) return;
-      const canvas = canvasRef.current;
-      const ctx = canvas.getContext('2d');
-
-      if (!ctx) {
-        console.error("VideoPlayer: Canvas 2D context not available.");
-        setInternalImageError("Canvas rendering error.");
-        return;
-      }
+    framesRef.current = frames;
+    onFrameRenderedRef.current = onFrameRendered;
+    onRenderStatsRef.current = onRenderStats;
+    onMotionRef.current = onMotion;
+    zoomRef.current = zoom;
+    onZoomChangeRef.current = onZoomChange;
+  }, [frames, onFrameRendered, onRenderStats, onMotion, zoom, onZoomChange]);
 
-      // Set canvas dimensions to the natural dimensions of the loaded image
-      if (img.naturalWidth > 0 && img.naturalHeight > 0) {
-        canvas.width = img.naturalWidth;
-        canvas.height = img.naturalHeight;
-      } else {
-        // Fallback if image somehow loads with 0 dimensions (should be rare)
-        console.warn("VideoPlayer: Image loaded with 0 dimensions, using fallback 640x480.");
-        canvas.width = 640;
-        canvas.height = 480;
-      }
-      
-      // Style the canvas to fit its container while maintaining aspect ratio
-      canvas.style.width = '100%';
-      canvas.style.height = '100%';
-      canvas.style.objectFit = 'contain'; // 'cover' or 'fill' are other options
-
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
-      setInternalImageError(null); // Clear any previous image loading error
-      setLastFrameTime(Date.now());
-    };
+  useEffect(() => {
+    motionZonesRef.current = motionZones;
+    rendererRef.current?.setMotionZones(motionZones);
+  }, [motionZones]);
 
-    img.onerror = (event) => {
-      console.error("VideoPlayer: Error loading image data into Image object.", event);
-      console.error("VideoPlayer: Failing img.src was:", img.src.substring(0,100) + "..."); // Log the problematic src
-      setInternalImageError("Failed to load video frame. Data might be corrupted or invalid.");
-    };
+  useEffect(() => {
+    privacyMasksRef.current = privacyMasks;
+    rendererRef.current?.setPrivacyMasks(privacyMasks);
+  }, [privacyMasks]);
+
+  useEffect(() => {
+    const host = canvasHostRef.current;
+    if (!host) return;
+
+    const canvas = document.createElement('canvas');
+    // Fit the container while keeping the frame's aspect ratio
+    canvas.style.cssText = 'display: block; width: 100%; height: 100%; object-fit: contain; background-color: black;';
+    host.appendChild(canvas);
+
+    // Main-thread cost of the hand-overs since the last stats report
+    let handoffMs = 0;
+    let handoffs = 0;
+
+    const renderer = createFrameRenderer(canvas, (stats) => {
+      if (stats.rendered > 0) onFrameRenderedRef.current?.(stats.rendered);
+      onRenderStatsRef.current?.(stats, handoffs > 0 ? handoffMs / handoffs : 0);
+      if (stats.motion !== null) onMotionRef.current?.(stats.motion);
+      handoffMs = 0;
+      handoffs = 0;
+      // Stats arrive a few times a second; only an actual change re-renders
+      setInternalImageError((current) => (current === stats.error ? current : stats.error));
+    });
+    // Before the first frame goes out
+    renderer.setPrivacyMasks(privacyMasksRef.current);
+    if (motionZonesRef.current) renderer.setMotionZones(motionZonesRef.current);
+    rendererRef.current = renderer;
+
+    // Once per display refresh, hand the newest frame to the renderer if one arrived since the last
+    let paintedPosition = -1;
+    const stopPainting = onPaint(() => {
+      const buffer = framesRef.current;
+      if (!buffer || buffer.position === paintedPosition) return;
+      paintedPosition = buffer.position;
+      const frame = buffer.latest();
+      if (!frame) return;
+
+      const startedAt = performance.now();
+      renderer.render(frame);
+      handoffMs += performance.now() - startedAt;
+      handoffs += 1;
+    });
 
     return () => {
-      // Cleanup: remove event listeners and nullify src if the Image object exists
-      if (imageRef.current) {
-        imageRef.current.onload = null;
-        imageRef.current.onerror = null;
-        imageRef.current.src = ''; // Prevent further loading/errors
-        imageRef.current = null;
-      }
+      stopPainting();
+      renderer.dispose();
+      rendererRef.current = null;
+      canvas.remove();
     };
-  }, []); // Empty dependency array: runs once on mount and cleanup on unmount
+  }, []);
 
-  // Effect to update image source when frameData changes
+  // Wheel and pinch zoom, drag to pan, double-click to reset. Listeners are added by hand
+  // because a wheel listener has to be non-passive to keep the page from scrolling.
+  const zoomable = !!onZoomChange;
   useEffect(() => {
-    if (!frameData || !imageRef.current) {
-      // If no frame data, or image object not ready, do nothing or clear
-      if (!frameData && canvasRef.current && isPlaying) {
-          // Optional: Clear canvas if stream is playing but no frame data arrives for a while
-          // This depends on desired behavior for "stale" frames.
+    const viewport = viewportRef.current;
+    if (!zoomable || !viewport) return;
+
+    const change = (next: ZoomState) => {
+      const current = zoomRef.current;
+      if (next.scale === current.scale && next.x === current.x && next.y === current.y) return;
+      zoomRef.current = next;
+      onZoomChangeRef.current?.(next);
+    };
+    // Pointer position as fractions of the player
+    const relative = (clientX: number, clientY: number): [number, number] => {
+      const rect = viewport.getBoundingClientRect();
+      return [(clientX - rect.left) / rect.width, (clientY - rect.top) / rect.height];
+    };
+    const fromMinimap = (event: Event) =>
+      event.target instanceof Element && event.target.closest('[data-zoom-minimap]') !== null;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const pixels = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? event.deltaY * LINE_HEIGHT_PX : event.deltaY;
+      const [u, v] = relative(event.clientX, event.clientY);
+      change(zoomAt(zoomRef.current, Math.pow(2, -pixels / WHEEL_PIXELS_PER_DOUBLING), u, v));
+    };
+
+    // Active pointers: one drags, two pinch
+    const pointers: Map<number, { x: number; y: number }> = new Map();
+
+    const handlePointerDown = (event: PointerEvent) => {
+      if (fromMinimap(event) || (event.pointerType === 'mouse' && event.button !== 0)) return;
+      viewport.setPointerCapture(event.pointerId);
+      pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    };
+
+    const handlePointerMove = (event: PointerEvent) => {
+      const previous = pointers.get(event.pointerId);
+      if (!previous) return;
+      const rect = viewport.getBoundingClientRect();
+
+      if (pointers.size === 1) {
+        change(panBy(zoomRef.current, (event.clientX - previous.x) / rect.width, (event.clientY - previous.y) / rect.height));
+      } else if (pointers.size === 2) {
+        const other = [...pointers.entries()].find(([id]) => id !== event.pointerId)?.[1];
+        if (other) {
+          const before = Math.hypot(previous.x - other.x, previous.y - other.y);
+          const after = Math.hypot(event.clientX - other.x, event.clientY - other.y);
+          // Zoom around the midpoint, and let it carry the picture along as it moves
+          const [u, v] = relative((event.clientX + other.x) / 2, (event.clientY + other.y) / 2);
+          const zoomed = before > 0 ? zoomAt(zoomRef.current, after / before, u, v) : zoomRef.current;
+          change(panBy(zoomed, (event.clientX - previous.x) / 2 / rect.width, (event.clientY - previous.y) / 2 / rect.height));
+        }
       }
-      return;
-    }
+      pointers.set(event.pointerId, { x: event.clientX, y: event.clientY });
+    };
 
-    if (typeof frameData !== 'string' || frameData.trim() === "") {
-        console.warn("VideoPlayer: Received empty or invalid frameData type.");
-        setInternalImageError("Received invalid frame data format.");
-        return;
-    }
-    
-    // IMPORTANT: Construct the data URL assuming frameData is PURE base64
-    // Do not add any cache-busting query parameters here.
-    const dataUrl = `data:image/jpeg;base64,${frameData}`;
-    
-    // Assign to the Image object's src. The 'onload' or 'onerror' handlers (defined above) will fire.
-    imageRef.current.src = dataUrl;
+    const handlePointerUp = (event: PointerEvent) => {
+      pointers.delete(event.pointerId);
+    };
+
+    const handleDoubleClick = (event: MouseEvent) => {
+      if (!fromMinimap(event)) change(NO_ZOOM);
+    };
 
-  }, [frameData, isPlaying]); // Re-run when frameData or isPlaying status changes
+    const resizeObserver = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      if (width > 0 && height > 0) setAspect(width / height);
+    });
+    resizeObserver.observe(viewport);
+
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    viewport.addEventListener('pointerdown', handlePointerDown);
+    viewport.addEventListener('pointermove', handlePointerMove);
+    viewport.addEventListener('pointerup', handlePointerUp);
+    viewport.addEventListener('pointercancel', handlePointerUp);
+    viewport.addEventListener('dblclick', handleDoubleClick);
+    return () => {
+      resizeObserver.disconnect();
+      viewport.removeEventListener('wheel', handleWheel);
+      viewport.removeEventListener('pointerdown', handlePointerDown);
+      viewport.removeEventListener('pointermove', handlePointerMove);
+      viewport.removeEventListener('pointerup', handlePointerUp);
+      viewport.removeEventListener('pointercancel', handlePointerUp);
+      viewport.removeEventListener('dblclick', handleDoubleClick);
+    };
+  }, [zoomable]);
 
   // Determine the overall error message to display
   const displayError = connectionError || internalImageError;
 
   // UI Rendering Logic
+  // Whether one of the overlays below covers the whole player instead of the canvas
+  const showCanvas = !isLoading && !displayError && (isPlaying || hasFrame);
+
   const renderContent = () => {
     if (isLoading) {
       return (
@@ -133,7 +261,7 @@ export const VideoPlayer = memo(({
       );
     }
 
-    if (!isPlaying && !frameData) { // Show "No Stream" only if not playing AND no residual frame
+    if (!isPlaying && !hasFrame) { // Show "No Stream" only if not playing AND no residual frame
       return (
         <div className="absolute inset-0 flex items-center justify-center flex-col text-center">
           <div className="bg-gray-700 rounded-full p-3 mb-2">
@@ -147,21 +275,33 @@ export const VideoPlayer = memo(({
       );
     }
 
-    // If playing or has frame data, the canvas will be used.
+    // If playing or has frame data, the canvas shows through.
     // We add a "Live" indicator or stale frame indicator.
-    const now = Date.now();
-    const isFrameStale = isPlaying && lastFrameTime > 0 && (now - lastFrameTime > 5000); // Frame older than 5s
-
     return (
       <>
-        <canvas 
-          ref={canvasRef} 
-          className="w-full h-full" // CSS will make it fit, object-fit on canvas ensures aspect ratio
-          style={{ display: 'block', backgroundColor: 'black' }} 
-        />
-        {isPlaying && !internalImageError && (
-          <div className={`absolute bottom-2 left-2 text-xs px-2 py-0.5 rounded ${isFrameStale ? 'bg-yellow-600 text-white' : 'bg-red-600 text-white'}`}>
-            {isFrameStale ? 'STALE' : 'LIVE'}
+        {stalledSince !== null && !internalImageError && (
+          <div className="absolute top-2 left-1/2 -translate-x-1/2 text-xs px-3 py-1 rounded bg-black/70 text-yellow-300 whitespace-nowrap">
+            Stalled since {new Date(stalledSince).toLocaleTimeString()}
+            {!isStalled && ' · restarting stream'}
+          </div>
+        )}
+        {zoomable && isZoomed(zoom) && (
+          <ZoomMinimap
+            frames={frames}
+            zoom={zoom}
+            aspect={aspect}
+            privacyMasks={privacyMasks}
+            onJump={(x, y) => onZoomChange?.(clampZoom({ ...zoom, x, y }))}
+          />
+        )}
+        {behindMs !== null && !internalImageError && (
+          <div className="absolute bottom-2 left-2 text-xs px-2 py-0.5 rounded bg-gray-700 text-white tabular-nums">
+            -{formatDuration(behindMs).padStart(5, '0')}
+          </div>
+        )}
+        {behindMs === null && isPlaying && !internalImageError && (
+          <div className={`absolute bottom-2 left-2 text-xs px-2 py-0.5 rounded ${isStalled ? 'bg-yellow-600 text-white' : 'bg-red-600 text-white'}`}>
+            {isStalled ? 'STALE' : 'LIVE'}
           </div>
         )}
       </>
@@ -170,11 +310,19 @@ export const VideoPlayer = memo(({
 
   return (
     <motion.div 
-      className="relative w-full h-full bg-black rounded-lg overflow-hidden"
+      ref={viewportRef}
+      className={`relative w-full h-full bg-black rounded-lg overflow-hidden ${
+        zoomable ? `touch-none ${isZoomed(zoom) ? 'cursor-grab active:cursor-grabbing' : ''}` : ''
+      }`}
       initial={{ opacity: 0 }}
       animate={{ opacity: 1 }}
       transition={{ duration: 0.3 }}
     >
+      <div
+        ref={canvasHostRef}
+        className={`absolute inset-0 origin-top-left ${showCanvas ? '' : 'invisible'}`}
+        style={isZoomed(zoom) ? { transform: zoomTransform(zoom) } : undefined}
+      />
       {renderContent()}
     </motion.div>
   );
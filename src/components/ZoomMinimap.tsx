@@ -0,0 +1,94 @@
+import { useEffect, useRef } from 'react';
+import type { FrameSource } from '../services/frameBuffer';
+import type { ZoomState } from '../types/renderer';
+import type { PrivacyMask } from '../types/stream';
+import { frameToBlob } from '../utils/frameCodec';
+import { PrivacyMasker, createDomScratch } from '../utils/privacyMask';
+
+interface ZoomMinimapProps {
+  frames: FrameSource | null;
+  zoom: ZoomState;
+  // Width / height of the player, so the thumbnail is letterboxed the same way
+  aspect: number;
+  privacyMasks: PrivacyMask[];
+  // Centres the view on a point given as fractions of the player
+  onJump: (x: number, y: number) => void;
+}
+
+const MINIMAP_WIDTH = 160;
+// The thumbnail only needs to be roughly current
+const REFRESH_MS = 500;
+
+/**
+ * Thumbnail of the whole frame with the zoomed-in region outlined. Clicking moves the view there.
+ */
+export const ZoomMinimap = ({ frames, zoom, aspect, privacyMasks, onJump }: ZoomMinimapProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const height = Math.round(MINIMAP_WIDTH / aspect);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !frames) return;
+    const masker = new PrivacyMasker(createDomScratch);
+    masker.setMasks(privacyMasks);
+
+    let drawnPosition = -1;
+    let cancelled = false;
+    const refresh = async () => {
+      const frame = frames.latest();
+      if (!frame || frames.position === drawnPosition) return;
+      drawnPosition = frames.position;
+      try {
+        const bitmap = await createImageBitmap(frameToBlob(frame), { resizeWidth: MINIMAP_WIDTH, resizeQuality: 'low' });
+        if (!cancelled) {
+          // Letterbox like the player's `object-fit: contain`
+          const scale = Math.min(canvas.width / bitmap.width, canvas.height / bitmap.height);
+          const width = bitmap.width * scale;
+          const drawHeight = bitmap.height * scale;
+          ctx.fillStyle = 'black';
+          ctx.fillRect(0, 0, canvas.width, canvas.height);
+          const left = (canvas.width - width) / 2;
+          const top = (canvas.height - drawHeight) / 2;
+          ctx.drawImage(bitmap, left, top, width, drawHeight);
+          masker.apply(ctx, bitmap, left, top, width, drawHeight);
+        }
+        bitmap.close();
+      } catch (err) {
+        console.warn('Zoom minimap: could not decode frame', err);
+      }
+    };
+
+    refresh();
+    const timer = setInterval(refresh, REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [frames, height, privacyMasks]);
+
+  const size = 100 / zoom.scale;
+
+  return (
+    <div
+      data-zoom-minimap
+      className="absolute bottom-28 right-3 z-10 rounded border border-white/60 shadow-lg overflow-hidden cursor-pointer bg-black"
+      style={{ width: MINIMAP_WIDTH, height }}
+      onPointerDown={(e) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        onJump((e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height);
+      }}
+    >
+      <canvas ref={canvasRef} width={MINIMAP_WIDTH} height={height} className="block" />
+      <div
+        className="absolute border-2 border-yellow-400 pointer-events-none"
+        style={{
+          left: `${zoom.x * 100 - size / 2}%`,
+          top: `${zoom.y * 100 - size / 2}%`,
+          width: `${size}%`,
+          height: `${size}%`,
+        }}
+      />
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import { useEffect, useRef, useState } from 'react';
+
+interface ContainedRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Where a frame of the given size sits inside the element behind `ref`, letterboxed
+ * like the player's `object-fit: contain`. Follows the element as it resizes.
+ */
+export const useContainedRect = <T extends HTMLElement>(frameWidth: number, frameHeight: number) => {
+  const ref = useRef<T>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const scale = Math.min(size.width / frameWidth, size.height / frameHeight) || 0;
+  const width = frameWidth * scale;
+  const height = frameHeight * scale;
+  const rect: ContainedRect = { left: (size.width - width) / 2, top: (size.height - height) / 2, width, height };
+  return [ref, rect] as const;
+};
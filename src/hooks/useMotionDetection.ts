@@ -0,0 +1,112 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { useMotionStore } from '../store/motionStore';
+import type { MotionSettings, MotionZone } from '../types/motion';
+import { DEFAULT_MOTION_SETTINGS, triggerLevel } from '../utils/motion';
+import { playAlertSound } from '../utils/alertSound';
+
+interface UseMotionDetectionProps {
+  streamKey: string;
+  streamName: string;
+  // Called when motion starts on a stream set to be selected on motion
+  onSelect?: () => void;
+}
+
+interface UseMotionDetectionReturn {
+  settings: MotionSettings;
+  // For the renderer; null while detection is off
+  zones: MotionZone[] | null;
+  level: number;
+  threshold: number;
+  // Whether a motion event is going on
+  active: boolean;
+  // Pass the motion levels from the renderer's stats
+  reportMotion: (level: number) => void;
+}
+
+// An event ends once there has been no motion for this long
+const EVENT_HOLD_MS = 3000;
+
+interface OpenEvent {
+  streamKey: string;
+  lastMotionAt: number;
+  peak: number;
+}
+
+/**
+ * Turns motion levels into events in the stream's log and fires the stream's alerts
+ * when an event starts.
+ */
+export const useMotionDetection = ({ streamKey, streamName, onSelect }: UseMotionDetectionProps): UseMotionDetectionReturn => {
+  const settings = useMotionStore((state) => state.settings[streamKey]) ?? DEFAULT_MOTION_SETTINGS;
+  const [level, setLevel] = useState(0);
+  const [active, setActive] = useState(false);
+  const eventRef = useRef<OpenEvent | null>(null);
+  const latestRef = useRef({ streamKey, streamName, settings, onSelect });
+
+  useEffect(() => {
+    latestRef.current = { streamKey, streamName, settings, onSelect };
+  });
+
+  const endEvent = useCallback(() => {
+    const event = eventRef.current;
+    if (!event) return;
+    eventRef.current = null;
+    useMotionStore.getState().endEvent(event.streamKey, event.lastMotionAt);
+    setActive(false);
+  }, []);
+
+  const reportMotion = useCallback((next: number) => {
+    const { streamKey, streamName, settings, onSelect } = latestRef.current;
+    setLevel(next);
+    if (!settings.enabled) return;
+
+    const now = Date.now();
+    const event = eventRef.current;
+    if (next < triggerLevel(settings.sensitivity)) {
+      if (event && now - event.lastMotionAt >= EVENT_HOLD_MS) endEvent();
+      return;
+    }
+
+    if (event) {
+      event.lastMotionAt = now;
+      if (next > event.peak) {
+        event.peak = next;
+        useMotionStore.getState().updateEvent(event.streamKey, next);
+      }
+      return;
+    }
+
+    eventRef.current = { streamKey, lastMotionAt: now, peak: next };
+    useMotionStore.getState().startEvent(streamKey, now, next);
+    setActive(true);
+    if (settings.alerts.toast) toast(`Motion on ${streamName}`);
+    if (settings.alerts.sound) playAlertSound();
+    if (settings.alerts.select) onSelect?.();
+  }, [endEvent]);
+
+  // Levels stop coming when the stream does, so the hold is also checked on a timer
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(() => {
+      const event = eventRef.current;
+      if (event && Date.now() - event.lastMotionAt >= EVENT_HOLD_MS) endEvent();
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [active, endEvent]);
+
+  // Close the event when detection goes off, the stream changes or the player goes away
+  useEffect(() => {
+    if (!settings.enabled) setLevel(0);
+    return endEvent;
+  }, [streamKey, settings.enabled, endEvent]);
+
+  return {
+    settings,
+    zones: settings.enabled ? settings.zones : null,
+    level,
+    threshold: triggerLevel(settings.sensitivity),
+    active,
+    reportMotion,
+  };
+};
@@ -0,0 +1,38 @@
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { RewindController } from '../services/rewindController';
+import type { RewindTimeline } from '../services/rewindController';
+import type { StreamSession } from '../services/streamSession';
+
+interface UseRewindReturn {
+  // Frame source for the player, live or from the history
+  controller: RewindController;
+  live: boolean;
+  paused: boolean;
+  // Only kept up to date while `trackTimeline` is set or the player is behind live
+  timeline: RewindTimeline | null;
+}
+
+// The scrub bar doesn't need to follow every frame
+const TIMELINE_INTERVAL_MS = 250;
+
+export const useRewind = (session: StreamSession, trackTimeline: boolean): UseRewindReturn => {
+  const [controller] = useState(() => new RewindController(session.history, session.frames));
+  const { live, paused } = useSyncExternalStore(controller.subscribe, controller.getSnapshot);
+  const [timeline, setTimeline] = useState<RewindTimeline | null>(null);
+
+  useEffect(() => () => controller.dispose(), [controller]);
+
+  useEffect(() => {
+    session.setRewinding(!live);
+  }, [session, live]);
+
+  useEffect(() => {
+    if (!trackTimeline && live) return;
+    const update = () => setTimeline(controller.getTimeline());
+    update();
+    const timer = setInterval(update, TIMELINE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [controller, trackTimeline, live]);
+
+  return { controller, live, paused, timeline };
+};
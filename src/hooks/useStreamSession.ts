@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import { StreamSession } from '../services/streamSession';
+import type { StreamInfo } from '../services/streamSession';
+import type { StreamStatus } from '../types/stream';
+import type { StreamOptions } from '../types/socket';
+
+interface UseStreamSessionProps {
+  rtspUrl?: string;
+  // Start as soon as the component mounts or the URL changes, stop on unmount
+  autoStart?: boolean;
+  autoRestart?: boolean;
+  // Lower the frame rate automatically when rendering falls behind
+  adaptive?: boolean;
+  // Keep the last few seconds of frames for rewinding
+  rewind?: boolean;
+}
+
+interface UseStreamSessionReturn {
+  session: StreamSession;
+  status: StreamStatus;
+  hasFrame: boolean;
+  error: string | null;
+  info: StreamInfo;
+  stalledSince: number | null;
+  requestedOptions: StreamOptions;
+  options: StreamOptions;
+  adaptiveFps: number | null;
+  droppedFrames: number;
+  isActive: boolean;
+  start: () => void;
+  stop: () => void;
+  restart: () => void;
+  setOptions: (options: StreamOptions) => void;
+  // Pass to the renderer so it can report painted frames
+  reportRendered: (count?: number) => void;
+}
+
+// The states in which the session holds (or is acquiring) a stream on the backend
+const ACTIVE_STATES: readonly StreamStatus[] = ['connecting', 'starting', 'playing', 'stalled'];
+
+export const useStreamSession = ({
+  rtspUrl,
+  autoStart = true,
+  autoRestart = true,
+  adaptive = true,
+  rewind = false,
+}: UseStreamSessionProps = {}): UseStreamSessionReturn => {
+  // Each component owns one session on the shared socket connection
+  const [session] = useState(() => new StreamSession({ autoRestart, adaptive, rewind }));
+  const snapshot = useSyncExternalStore(session.subscribe, session.getSnapshot);
+
+  useEffect(() => {
+    session.setAutoRestart(autoRestart);
+  }, [session, autoRestart]);
+
+  useEffect(() => {
+    session.setAdaptive(adaptive);
+  }, [session, adaptive]);
+
+  useEffect(() => {
+    session.setRewind(rewind);
+  }, [session, rewind]);
+
+  useEffect(() => {
+    if (!autoStart || !rtspUrl) return;
+
+    session.start(rtspUrl);
+    return () => session.stop();
+  }, [session, rtspUrl, autoStart]);
+
+  const start = useCallback(() => {
+    session.start(rtspUrl);
+  }, [session, rtspUrl]);
+
+  const stop = useCallback(() => session.stop(), [session]);
+
+  const restart = useCallback(() => {
+    session.restart();
+  }, [session]);
+
+  const setOptions = useCallback((options: StreamOptions) => session.setOptions(options), [session]);
+
+  const reportRendered = useCallback((count?: number) => session.reportRendered(count), [session]);
+
+  return {
+    session,
+    ...snapshot,
+    isActive: ACTIVE_STATES.includes(snapshot.status),
+    start,
+    stop,
+    restart,
+    setOptions,
+    reportRendered,
+  };
+};
@@ -3,13 +3,21 @@ import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
 import './index.css'
 import socketService from './services/socketService'
+import { getConfig, loadConfig } from './services/config'
+import { fetchSocketToken, initializeCSRF } from './services/api'
+import { AuthenticatedSocket, SocketTokenProvider } from './services/socketAuth'
+import { DemoSocket } from './services/demoSocket'
+import { electTabHub } from './services/tabHub'
+import { TabRelaySocket } from './services/tabRelaySocket'
+import { supportsTabSharing } from './services/tabChannel'
+import type { SocketTransportFactory } from './types/socket'
 
 // Initialize socket connection with retry mechanism
 const initializeSocket = () => {
   console.log('Initializing WebSocket connection...');
   
-  // Check if browser is online
-  if (!navigator.onLine) {
+  // Check if browser is online; the demo backend runs in the page and doesn't care
+  if (!navigator.onLine && !getConfig().demoMode) {
     console.warn('Browser is offline, will connect when online');
     
     // Add event listener to connect when online
@@ -35,8 +43,6 @@ const initializeSocket = () => {
   }, 3000);
 };
 
-// Initialize socket connection
-initializeSocket();
 
 // Initial dark mode setup
 const darkModeSetup = () => {
@@ -65,8 +71,38 @@ if (isDarkMode) {
   document.body.setAttribute('data-theme', 'light');
 }
 
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>,
-)
+// Every HTTP and WebSocket client reads the backend location from the config,
+// so the runtime override has to be in place before anything connects
+loadConfig().then((config) => {
+  socketService.setFrameTransport(config.frameTransport);
+  const csrfReady = config.demoMode ? Promise.resolve() : initializeCSRF();
+
+  const socketAuth = config.socketAuth;
+  // Token requests are POSTs, so they wait for the CSRF cookie
+  const tokens = new SocketTokenProvider(() => csrfReady.then(fetchSocketToken));
+  let createBackendSocket: SocketTransportFactory;
+  if (config.demoMode) {
+    createBackendSocket = () => new DemoSocket();
+  } else if (socketAuth === 'off') {
+    createBackendSocket = (url) => new WebSocket(url);
+  } else {
+    createBackendSocket = (url) => new AuthenticatedSocket(url, tokens, socketAuth);
+  }
+  if (config.shareConnection && supportsTabSharing()) {
+    // Only the leader tab talks to the backend, every tab reaches it through the relay
+    electTabHub(createBackendSocket);
+    socketService.setTransportFactory(() => new TabRelaySocket(), { needsNetwork: !config.demoMode });
+  } else {
+    if (config.shareConnection) {
+      console.warn('This browser cannot share the connection between tabs, using one per tab');
+    }
+    socketService.setTransportFactory(createBackendSocket, { needsNetwork: !config.demoMode });
+  }
+  initializeSocket();
+
+  ReactDOM.createRoot(document.getElementById('root')!).render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>,
+  )
+})
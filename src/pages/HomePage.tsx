@@ -1,7 +1,10 @@
 import { useState, useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useStreamStore } from '../store/streamStore';
+import { useMotionStore } from '../store/motionStore';
 import { StreamPlayer } from '../components/StreamPlayer';
+import { MotionWatcher } from '../components/MotionWatcher';
 import { StreamForm } from '../components/StreamForm';
 import type { Stream } from '../types/stream';
 import { safeStreamId } from '../utils/streamUtils';
@@ -22,6 +25,7 @@ import {
   ChevronDown,
   Sun,
   Moon,
+  LayoutGrid,
 } from 'lucide-react';
 
 export function HomePage() {
@@ -52,6 +56,11 @@ export function HomePage() {
   
   const selectedStream = getSelectedStream();
   const containerRef = useRef<HTMLDivElement>(null);
+  const motionSettings = useMotionStore((state) => state.settings);
+  // The selected stream is watched by its player; the others with motion detection in the background
+  const watchedStreams = streams.filter(
+    (stream) => stream.id !== selectedStreamId && motionSettings[String(stream.id ?? stream.url)]?.enabled,
+  );
 
   // Fetch streams on mount
   useEffect(() => {
@@ -167,6 +176,13 @@ export function HomePage() {
               </h1>
             </div>
             <div className="flex items-center space-x-3">
+              <Link
+                to="/wall"
+                className="flex items-center px-3 py-2 rounded-lg bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 text-sm font-medium hover:bg-gray-300 dark:hover:bg-gray-600"
+              >
+                <LayoutGrid className="h-4 w-4 mr-1.5" />
+                Wall
+              </Link>
               <motion.button
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
@@ -476,6 +492,10 @@ export function HomePage() {
         </div>
       </main>
 
+      {watchedStreams.map((stream) => (
+        <MotionWatcher key={stream.id ?? stream.url} stream={stream} onSelect={selectStream} />
+      ))}
+
       {/* Stream Form Modal */}
       <StreamForm
         isOpen={isModalOpen}
@@ -0,0 +1,171 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, RotateCcw } from 'lucide-react';
+import { useStreamStore } from '../store/streamStore';
+import { StreamWall } from '../components/StreamWall';
+import type { WallRendererKind } from '../components/StreamWall';
+import { DEFAULT_TILE_SETTINGS } from '../services/wallRenderer';
+import type { Stream } from '../types/stream';
+import type { TileFit, TileSettings } from '../types/renderer';
+
+const COLUMN_CHOICES = [2, 3, 4, 5, 6];
+const FIT_LABELS: Record<TileFit, string> = {
+  contain: 'Letterbox',
+  cover: 'Crop to fill',
+  fill: 'Stretch',
+};
+const RENDERER_KEY = 'wallRenderer';
+
+const selectClass = 'bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+export default function WallPage() {
+  const { streams, fetchStreams } = useStreamStore();
+  const [columns, setColumns] = useState(4);
+  const [rendererKind, setRendererKind] = useState<WallRendererKind>(
+    () => (localStorage.getItem(RENDERER_KEY) === '2d' ? '2d' : 'webgl'),
+  );
+  const [webglUnavailable, setWebglUnavailable] = useState(false);
+  const [tileSettings, setTileSettings] = useState<Record<string, TileSettings>>({});
+  const [selectedId, setSelectedId] = useState<string | number | null>(null);
+
+  useEffect(() => {
+    if (streams.length === 0) fetchStreams().catch(console.error);
+  }, [streams.length, fetchStreams]);
+
+  const chooseRenderer = (kind: WallRendererKind) => {
+    setRendererKind(kind);
+    localStorage.setItem(RENDERER_KEY, kind);
+  };
+
+  const handleWebGLUnavailable = useCallback(() => {
+    setWebglUnavailable(true);
+    setRendererKind('2d');
+  }, []);
+
+  const settingsFor = useCallback(
+    (stream: Stream) => (stream.id !== undefined && tileSettings[String(stream.id)]) || DEFAULT_TILE_SETTINGS,
+    [tileSettings],
+  );
+
+  const selectedStream = streams.find((stream) => stream.id !== undefined && stream.id === selectedId);
+  const selectedSettings = selectedStream ? settingsFor(selectedStream) : null;
+
+  const updateSelected = (patch: Partial<TileSettings>) => {
+    if (selectedId === null || !selectedSettings) return;
+    setTileSettings((current) => ({ ...current, [String(selectedId)]: { ...selectedSettings, ...patch } }));
+  };
+
+  const resetSelected = () => {
+    if (selectedId === null) return;
+    setTileSettings((current) => {
+      const next = { ...current };
+      delete next[String(selectedId)];
+      return next;
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200">
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="px-4 sm:px-6 lg:px-8 py-3 flex flex-wrap items-center gap-4">
+          <Link to="/" className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700" aria-label="Back to streams">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+          <h1 className="text-xl font-bold text-gray-900 dark:text-white">Stream Wall</h1>
+          <span className="text-sm text-gray-500 dark:text-gray-400">{streams.length} streams</span>
+
+          <div className="ml-auto flex flex-wrap items-center gap-4 text-sm">
+            <label className="flex items-center gap-2">
+              Renderer
+              <select
+                value={rendererKind}
+                onChange={(e) => chooseRenderer(e.target.value as WallRendererKind)}
+                className={selectClass}
+              >
+                <option value="webgl" disabled={webglUnavailable}>
+                  WebGL{webglUnavailable ? ' (unavailable)' : ''}
+                </option>
+                <option value="2d">2D canvas per tile</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Columns
+              <select value={columns} onChange={(e) => setColumns(Number(e.target.value))} className={selectClass}>
+                {COLUMN_CHOICES.map((count) => (
+                  <option key={count} value={count}>{count}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+
+        {selectedStream && selectedSettings && (
+          <div className="px-4 sm:px-6 lg:px-8 py-2 flex flex-wrap items-center gap-4 text-sm border-t border-gray-200 dark:border-gray-700">
+            <span className="font-medium truncate max-w-xs">{selectedStream.name}</span>
+            <label className="flex items-center gap-2">
+              Scaling
+              <select
+                value={selectedSettings.fit}
+                onChange={(e) => updateSelected({ fit: e.target.value as TileFit })}
+                disabled={rendererKind !== 'webgl'}
+                className={selectClass}
+                title={rendererKind === 'webgl' ? undefined : 'The 2D renderer always letterboxes'}
+              >
+                {(Object.keys(FIT_LABELS) as TileFit[]).map((fit) => (
+                  <option key={fit} value={fit}>{FIT_LABELS[fit]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Brightness
+              <input
+                type="range"
+                min={0}
+                max={2}
+                step={0.05}
+                value={selectedSettings.brightness}
+                onChange={(e) => updateSelected({ brightness: Number(e.target.value) })}
+              />
+              <span className="w-10 text-right tabular-nums">{selectedSettings.brightness.toFixed(2)}</span>
+            </label>
+            <label className="flex items-center gap-2">
+              Contrast
+              <input
+                type="range"
+                min={0}
+                max={2}
+                step={0.05}
+                value={selectedSettings.contrast}
+                onChange={(e) => updateSelected({ contrast: Number(e.target.value) })}
+              />
+              <span className="w-10 text-right tabular-nums">{selectedSettings.contrast.toFixed(2)}</span>
+            </label>
+            <button
+              onClick={resetSelected}
+              className="flex items-center px-2 py-1 rounded-md border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+            >
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Reset
+            </button>
+          </div>
+        )}
+      </header>
+
+      <main className="px-4 sm:px-6 lg:px-8 py-6">
+        {streams.length === 0 ? (
+          <p className="text-center text-gray-500 dark:text-gray-400 py-16">No streams yet. Add some on the streams page.</p>
+        ) : (
+          <StreamWall
+            streams={streams}
+            columns={columns}
+            rendererKind={rendererKind}
+            settingsFor={settingsFor}
+            selectedId={selectedId}
+            onSelect={setSelectedId}
+            onWebGLUnavailable={handleWebGLUnavailable}
+          />
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,131 +1,430 @@
-import React, { useEffect, useState } from 'react';
-import type { SocketConnectionState } from '../services/socketService';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Download, Pause, Play, Trash2 } from 'lucide-react';
+import type {
+  AuthRequiredEvent,
+  InboundMessage,
+  OutboundMessage,
+  PongMessage,
+  SocketCapture,
+  SocketConnectionState,
+  SocketErrorEvent,
+} from '../types/socket';
+import type { PrivacyMask } from '../types/stream';
 import socketService from '../services/socketService';
+import { useStreamStore } from '../store/streamStore';
+import { parseCapture } from '../services/socketRecorder';
+import { ProtocolComposer } from '../components/ProtocolComposer';
+import { ProtocolLog } from '../components/ProtocolLog';
+import type { LogDirection, ProtocolLogEntry } from '../components/ProtocolLog';
+import { frameByteLength, frameFromMessage } from '../utils/frameCodec';
+import { downloadJson, fileTimestamp } from '../utils/download';
+
+// Minimum time between recorded frames of one stream; 0 keeps every frame
+const FRAME_SAMPLING_CHOICES = [
+  { label: 'Every frame', value: 0 },
+  { label: '1 frame per second', value: 1000 },
+  { label: '1 frame every 5 seconds', value: 5000 },
+];
+const REPLAY_SPEEDS = [1, 2, 4, 8];
+
+// Only the newest entries are kept; counters cover everything
+const MAX_LOG_ENTRIES = 500;
+// Frames arrive far faster than anyone reads, so the log is updated in batches
+const FLUSH_INTERVAL_MS = 250;
+const DIRECTIONS: LogDirection[] = ['in', 'out', 'event'];
+
+const STATUS_STYLES: Record<SocketConnectionState, string> = {
+  open: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  connecting: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  closing: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  closed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  uninstantiated: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-200',
+};
+
+const buttonClass = 'px-3 py-1.5 rounded-md text-sm text-white disabled:opacity-50 disabled:cursor-not-allowed';
+const selectClass = 'bg-gray-50 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Masks of the stream a session plays, or null while that stream isn't known: not loaded
+// yet, or not one of ours. The console neither shows nor records frames with unknown masks.
+const privacyMasksOf = (sessionId: string): PrivacyMask[] | null => {
+  const url = socketService.getSessionUrl(sessionId);
+  const stream = url === undefined ? undefined : useStreamStore.getState().streams.find((candidate) => candidate.url === url);
+  return stream ? stream.privacy_masks ?? [] : null;
+};
+
+// Inbound messages with the frame swapped for a summary, so the log stays readable
+const inboundEntry = (message: InboundMessage | PongMessage): Omit<ProtocolLogEntry, 'id' | 'time'> => {
+  if (message.type !== 'stream.frame') {
+    return { direction: 'in', type: message.type, payload: message };
+  }
+  const frame = frameFromMessage(message);
+  return {
+    direction: 'in',
+    type: message.type,
+    payload: { ...message, frame: `<jpeg, ${frameByteLength(frame)} bytes>` },
+    frame,
+    privacyMasks: privacyMasksOf(frame.sessionId ?? ''),
+  };
+};
+
+const outboundEntry = (message: OutboundMessage | string): Omit<ProtocolLogEntry, 'id' | 'time'> => {
+  if (typeof message !== 'string') {
+    return { direction: 'out', type: message.action, payload: message };
+  }
+  try {
+    const parsed = JSON.parse(message);
+    return { direction: 'out', type: typeof parsed.action === 'string' ? parsed.action : 'raw', payload: parsed };
+  } catch {
+    return { direction: 'out', type: 'raw', payload: message };
+  }
+};
 
 const WebSocketTest: React.FC = () => {
-  const [connectionState, setConnectionState] = useState<SocketConnectionState>('uninstantiated');
-  const [messages, setMessages] = useState<string[]>([]);
+  const [connectionState, setConnectionState] = useState<SocketConnectionState>(socketService.getState());
   const [error, setError] = useState<string | null>(null);
+  const [entries, setEntries] = useState<ProtocolLogEntry[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [paused, setPaused] = useState(false);
+  const [hiddenTypes, setHiddenTypes] = useState<Set<string>>(new Set());
+  const [directions, setDirections] = useState<Set<LogDirection>>(new Set(DIRECTIONS));
+  const [isRecording, setIsRecording] = useState(socketService.isRecording());
+  const [recordedCount, setRecordedCount] = useState(0);
+  const [frameIntervalMs, setFrameIntervalMs] = useState(1000);
+  const [capture, setCapture] = useState<SocketCapture | null>(null);
+  const [isReplaying, setIsReplaying] = useState(socketService.isReplaying());
+  const [replaySpeed, setReplaySpeed] = useState(1);
+
+  const nextIdRef = useRef(0);
+  const pendingEntriesRef = useRef<ProtocolLogEntry[]>([]);
+  const countsRef = useRef<Record<string, number>>({});
+  const pausedRef = useRef(paused);
+  pausedRef.current = paused;
+
+  const addEntry = (entry: Omit<ProtocolLogEntry, 'id' | 'time'>) => {
+    countsRef.current[entry.type] = (countsRef.current[entry.type] ?? 0) + 1;
+    if (pausedRef.current) return;
+    pendingEntriesRef.current.push({ ...entry, id: nextIdRef.current++, time: Date.now() });
+  };
+
+  // Notes from the console itself, e.g. about recordings
+  const note = (text: string) => addEntry({ direction: 'event', type: 'console', payload: text });
+
+  // Privacy masks are kept on the streams, which aren't loaded yet when the console is opened directly
+  const streamCount = useStreamStore((state) => state.streams.length);
+  const fetchStreams = useStreamStore((state) => state.fetchStreams);
+  useEffect(() => {
+    if (streamCount === 0) fetchStreams().catch(console.error);
+  }, [streamCount, fetchStreams]);
 
   useEffect(() => {
-    // Add event listeners
     const handleOpen = () => {
-      setConnectionState('open');
-      setMessages(prev => [...prev, `[${new Date().toLocaleTimeString()}] Connection opened`]);
+      addEntry({ direction: 'event', type: 'open', payload: 'Connection opened' });
       setError(null);
     };
-
-    const handleClose = () => {
-      setConnectionState('closed');
-      setMessages(prev => [...prev, `[${new Date().toLocaleTimeString()}] Connection closed`]);
+    const handleClose = (event: CloseEvent) => {
+      addEntry({ direction: 'event', type: 'close', payload: { code: event.code, reason: event.reason } });
     };
-
-    const handleError = (data: any) => {
-      setError(data?.message || 'Unknown error');
-      setMessages(prev => [...prev, `[${new Date().toLocaleTimeString()}] Error: ${data?.message || 'Unknown error'}`]);
+    const handleError = (data: SocketErrorEvent) => {
+      setError(data.message || 'Unknown error');
+      addEntry({ direction: 'event', type: 'error', payload: data });
     };
-
-    const handleMessage = (data: any) => {
-      setMessages(prev => [...prev, `[${new Date().toLocaleTimeString()}] Message: ${JSON.stringify(data)}`]);
+    const handleAuthRequired = (data: AuthRequiredEvent) => {
+      addEntry({ direction: 'event', type: 'auth.required', payload: data });
     };
+    const handleMessage = (data: InboundMessage) => addEntry(inboundEntry(data));
+    const handlePong = (data: PongMessage) => addEntry(inboundEntry(data));
+    const handleSent = (data: OutboundMessage | string) => addEntry(outboundEntry(data));
 
-    // Register event listeners
     socketService.addEventListener('open', handleOpen);
     socketService.addEventListener('close', handleClose);
     socketService.addEventListener('error', handleError);
+    socketService.addEventListener('auth.required', handleAuthRequired);
     socketService.addEventListener('message', handleMessage);
+    socketService.addEventListener('pong', handlePong);
+    socketService.addEventListener('sent', handleSent);
 
     // Connect to the WebSocket server
     socketService.connect();
 
-    // Update connection state
     const intervalId = setInterval(() => {
       setConnectionState(socketService.getState());
-    }, 1000);
+      setRecordedCount(socketService.getRecordedCount());
+      setCounts({ ...countsRef.current });
+      const pending = pendingEntriesRef.current.splice(0);
+      if (pending.length > 0) {
+        setEntries(prev => [...prev, ...pending].slice(-MAX_LOG_ENTRIES));
+      }
+    }, FLUSH_INTERVAL_MS);
 
-    // Clean up on unmount
+    // Clean up on unmount. The connection is shared with every player in the app, and a
+    // replay is meant to carry on elsewhere, so both are left as they are
     return () => {
       clearInterval(intervalId);
       socketService.removeEventListener('open', handleOpen);
       socketService.removeEventListener('close', handleClose);
       socketService.removeEventListener('error', handleError);
+      socketService.removeEventListener('auth.required', handleAuthRequired);
       socketService.removeEventListener('message', handleMessage);
-      socketService.disconnect();
+      socketService.removeEventListener('pong', handlePong);
+      socketService.removeEventListener('sent', handleSent);
+      // Only this page can download a recording, so one left running would just grow
+      if (socketService.isRecording()) {
+        console.log('Leaving the protocol console, stopping the socket recording');
+        socketService.stopRecording();
+      }
     };
   }, []);
 
-  // Function to send a ping message
-  const sendPing = () => {
-    const success = socketService.sendMessage({ action: 'ping' });
-    if (success) {
-      setMessages(prev => [...prev, `[${new Date().toLocaleTimeString()}] Sent ping message`]);
-    } else {
-      setMessages(prev => [...prev, `[${new Date().toLocaleTimeString()}] Failed to send ping message`]);
+  const visibleEntries = useMemo(
+    () => entries.filter((entry) => directions.has(entry.direction) && !hiddenTypes.has(entry.type)),
+    [entries, directions, hiddenTypes]
+  );
+
+  const toggleType = (type: string) => {
+    setHiddenTypes(prev => {
+      const next = new Set(prev);
+      if (next.has(type)) next.delete(type); else next.add(type);
+      return next;
+    });
+  };
+
+  const toggleDirection = (direction: LogDirection) => {
+    setDirections(prev => {
+      const next = new Set(prev);
+      if (next.has(direction)) next.delete(direction); else next.add(direction);
+      return next;
+    });
+  };
+
+  const clearLog = () => {
+    pendingEntriesRef.current = [];
+    countsRef.current = {};
+    setEntries([]);
+    setCounts({});
+  };
+
+  const exportLog = () => {
+    const exported = visibleEntries.map(({ time, direction, type, payload }) => ({
+      time: new Date(time).toISOString(),
+      direction,
+      type,
+      payload,
+    }));
+    downloadJson(exported, `skylark-protocol-log-${fileTimestamp(Date.now())}.json`);
+  };
+
+  const startRecording = () => {
+    socketService.startRecording({
+      frameIntervalMs,
+      withholdFrames: (sessionId) => privacyMasksOf(sessionId)?.length !== 0,
+    });
+    setIsRecording(true);
+    note('Recording started');
+  };
+
+  const stopRecording = () => {
+    const recorded = socketService.stopRecording();
+    setIsRecording(false);
+    if (recorded) {
+      setCapture(recorded);
+      note(`Recording stopped, ${recorded.entries.length} message(s) captured`);
+    }
+  };
+
+  const loadCapture = async (file: File) => {
+    try {
+      const loaded = parseCapture(JSON.parse(await file.text()));
+      setCapture(loaded);
+      note(`Loaded ${file.name} with ${loaded.entries.length} message(s)`);
+    } catch (err) {
+      setError(`Could not load ${file.name}: ${err instanceof Error ? err.message : 'invalid file'}`);
     }
   };
 
+  const startReplay = () => {
+    if (!capture) return;
+    socketService.startReplay(capture, { speed: replaySpeed });
+    setIsReplaying(true);
+    note(`Replaying capture at ${replaySpeed}x`);
+  };
+
+  const stopReplay = () => {
+    socketService.stopReplay();
+    setIsReplaying(false);
+    note('Replay stopped, reconnecting to the backend');
+  };
+
+  const countedTypes = Object.keys(counts).sort();
+
   return (
-    <div style={{ padding: '20px', maxWidth: '800px', margin: '0 auto' }}>
-      <h1>WebSocket Connection Test</h1>
-      
-      <div style={{ 
-        padding: '10px',
-        marginBottom: '20px',
-        borderRadius: '4px',
-        backgroundColor: connectionState === 'open' ? '#d4edda' : 
-                         connectionState === 'connecting' ? '#fff3cd' : 
-                         connectionState === 'closed' ? '#f8d7da' : '#e2e3e5',
-        color: connectionState === 'open' ? '#155724' : 
-               connectionState === 'connecting' ? '#856404' : 
-               connectionState === 'closed' ? '#721c24' : '#383d41',
-      }}>
-        <h3>Connection Status: {connectionState}</h3>
-        {error && <p style={{ color: '#721c24' }}>Error: {error}</p>}
-      </div>
-
-      <div style={{ marginBottom: '20px' }}>
-        <button 
-          onClick={sendPing}
-          style={{
-            padding: '10px 15px',
-            backgroundColor: '#007bff',
-            color: 'white',
-            border: 'none',
-            borderRadius: '4px',
-            cursor: 'pointer'
-          }}
-        >
-          Send Ping
-        </button>
-      </div>
-
-      <div style={{ 
-        border: '1px solid #ddd',
-        borderRadius: '4px',
-        height: '300px',
-        overflowY: 'auto',
-        padding: '10px',
-        backgroundColor: '#f8f9fa'
-      }}>
-        <h3>WebSocket Events:</h3>
-        {messages.length === 0 ? (
-          <p>No events yet...</p>
-        ) : (
-          <ul style={{ listStyleType: 'none', padding: 0 }}>
-            {messages.map((msg, index) => (
-              <li key={index} style={{ 
-                padding: '5px',
-                borderBottom: '1px solid #eee',
-                fontFamily: 'monospace'
-              }}>
-                {msg}
-              </li>
-            ))}
-          </ul>
-        )}
-      </div>
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200">
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 h-16 flex items-center gap-4">
+          <Link to="/" className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-700" aria-label="Back to streams">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+          <h1 className="text-xl font-bold text-gray-900 dark:text-white">Protocol Console</h1>
+          <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[connectionState]}`}>
+            {connectionState}
+          </span>
+          {isReplaying && (
+            <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200">
+              REPLAY
+            </span>
+          )}
+          <div className="ml-auto flex gap-2">
+            <button onClick={() => socketService.reconnect()} className={`${buttonClass} bg-gray-600 hover:bg-gray-700`}>
+              Reconnect
+            </button>
+            <button onClick={() => socketService.disconnect()} className={`${buttonClass} bg-red-600 hover:bg-red-700`}>
+              Disconnect
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 grid grid-cols-1 lg:grid-cols-12 gap-6">
+        <div className="lg:col-span-5 space-y-6">
+          {error && (
+            <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/30 text-red-700 dark:text-red-300 text-sm">
+              Error: {error}
+            </div>
+          )}
+
+          <ProtocolComposer />
+
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow border border-gray-200 dark:border-gray-700 p-4 space-y-3">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Record &amp; Replay</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Capture every message sent and received, then replay it here or on the streams page.
+              A replay stays active until it is stopped; leaving this page ends a recording.
+            </p>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={frameIntervalMs}
+                onChange={(e) => setFrameIntervalMs(Number(e.target.value))}
+                disabled={isRecording}
+                className={selectClass}
+              >
+                {FRAME_SAMPLING_CHOICES.map((choice) => (
+                  <option key={choice.value} value={choice.value}>{choice.label}</option>
+                ))}
+              </select>
+              {isRecording ? (
+                <button onClick={stopRecording} className={`${buttonClass} bg-red-600 hover:bg-red-700`}>
+                  Stop Recording ({recordedCount})
+                </button>
+              ) : (
+                <button onClick={startRecording} className={`${buttonClass} bg-green-600 hover:bg-green-700`}>
+                  Start Recording
+                </button>
+              )}
+              <button
+                onClick={() => capture && downloadJson(capture, `skylark-capture-${fileTimestamp(capture.startedAt)}.json`)}
+                disabled={!capture}
+                className={`${buttonClass} bg-gray-600 hover:bg-gray-700`}
+              >
+                Download Capture
+              </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) loadCapture(file);
+                }}
+                className="text-sm"
+              />
+              <select
+                value={replaySpeed}
+                onChange={(e) => setReplaySpeed(Number(e.target.value))}
+                disabled={isReplaying}
+                className={selectClass}
+              >
+                {REPLAY_SPEEDS.map((speed) => (
+                  <option key={speed} value={speed}>{speed}x</option>
+                ))}
+              </select>
+              {isReplaying ? (
+                <button onClick={stopReplay} className={`${buttonClass} bg-red-600 hover:bg-red-700`}>
+                  Stop Replay
+                </button>
+              ) : (
+                <button onClick={startReplay} disabled={!capture} className={`${buttonClass} bg-blue-600 hover:bg-blue-700`}>
+                  Replay
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="lg:col-span-7 bg-white dark:bg-gray-800 rounded-xl shadow border border-gray-200 dark:border-gray-700 flex flex-col max-h-[calc(100vh-8rem)]">
+          <div className="p-4 border-b border-gray-200 dark:border-gray-700 space-y-3">
+            <div className="flex items-center gap-2">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white mr-auto">
+                Log <span className="text-sm font-normal text-gray-500">({visibleEntries.length} of {entries.length})</span>
+              </h2>
+              <button
+                onClick={() => setPaused(!paused)}
+                className="p-1.5 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700"
+                title={paused ? 'Resume' : 'Pause'}
+              >
+                {paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+              </button>
+              <button onClick={clearLog} className="p-1.5 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700" title="Clear">
+                <Trash2 className="h-4 w-4" />
+              </button>
+              <button onClick={exportLog} className="p-1.5 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700" title="Export shown entries">
+                <Download className="h-4 w-4" />
+              </button>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {DIRECTIONS.map((direction) => (
+                <button
+                  key={direction}
+                  onClick={() => toggleDirection(direction)}
+                  className={`px-3 py-1 text-xs rounded-full border ${
+                    directions.has(direction)
+                      ? 'bg-blue-600 border-blue-600 text-white'
+                      : 'border-gray-300 dark:border-gray-600 text-gray-500'
+                  }`}
+                >
+                  {direction === 'in' ? 'Received' : direction === 'out' ? 'Sent' : 'Connection'}
+                </button>
+              ))}
+            </div>
+
+            {/* Live counters per type; click one to hide or show that type */}
+            <div className="flex flex-wrap gap-2">
+              {countedTypes.map((type) => (
+                <button
+                  key={type}
+                  onClick={() => toggleType(type)}
+                  className={`px-2 py-0.5 text-xs rounded-md font-mono border ${
+                    hiddenTypes.has(type)
+                      ? 'border-gray-300 dark:border-gray-600 text-gray-400 line-through'
+                      : 'border-gray-300 dark:border-gray-600 bg-gray-100 dark:bg-gray-700'
+                  }`}
+                >
+                  {type} <span className="font-semibold">{counts[type]}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="overflow-y-auto flex-1">
+            <ProtocolLog entries={visibleEntries} />
+          </div>
+        </div>
+      </main>
     </div>
   );
 };
 
-export default WebSocketTest; 
\ No newline at end of file
+export default WebSocketTest;
@@ -1,15 +1,8 @@
 import axios from 'axios';
-import type { Stream } from '../types/stream';
-
-// Dynamically determine the API URL based on the current hostname
-const getApiUrl = () => {
-  const protocol = window.location.protocol;
-  const hostname = window.location.hostname;
-  return `${protocol}//${hostname}:8000/api`;
-};
-
-const API_URL = getApiUrl();
-console.log("Using API URL:", API_URL);
+import type { NewStream, Stream, StreamRepository } from '../types/stream';
+import type { SocketToken } from '../types/socket';
+import { getConfig } from './config';
+import { demoStreamRepository } from './demoRepository';
 
 // Function to get the CSRF token from cookies
 function getCsrfToken(): string | null {
@@ -21,15 +14,15 @@ function getCsrfToken(): string | null {
 }
 
 const api = axios.create({
-  baseURL: API_URL,
   headers: {
     'Content-Type': 'application/json',
   },
   withCredentials: true,
 });
 
-// Add request interceptor to include CSRF token in headers
+// Add request interceptor to resolve the API URL and include CSRF token in headers
 api.interceptors.request.use(config => {
+  config.baseURL = getConfig().apiUrl;
   const csrfToken = getCsrfToken();
   if (csrfToken) {
     config.headers['X-CSRFToken'] = csrfToken;
@@ -39,84 +32,106 @@ api.interceptors.request.use(config => {
   return Promise.reject(error);
 });
 
-// Get CSRF token when module loads
+// Get CSRF token once the backend location is known
 export const initializeCSRF = async (): Promise<void> => {
   try {
     // Make a GET request to get the CSRF cookie
-    await axios.get(`${API_URL}/streams/`, { withCredentials: true });
+    await axios.get(`${getConfig().apiUrl}/streams/`, { withCredentials: true });
     console.log('CSRF token initialized');
   } catch (error) {
     console.error('Failed to initialize CSRF token:', error);
   }
 };
 
-// Initialize CSRF token
-initializeCSRF();
-
-export const fetchStreams = async (): Promise<Stream[]> => {
+// Short-lived token for the stream WebSocket handshake, issued for the current session cookie
+export const fetchSocketToken = async (): Promise<SocketToken> => {
   try {
-    const response = await api.get<Stream[]>('/streams/');
-    const data = response.data as Stream[];
-    return data.concat([{
-      id: 'local',
-      name: 'Local Stream',
-      url: 'rtsp://127.0.0.1:8554/file',
-      description: 'Local test stream',
-      active: true,
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-    }]);
+    const response = await api.post<{ token: string; expires_in: number }>('/auth/ws-token/');
+    const issuedAt = Date.now();
+    return {
+      token: response.data.token,
+      issuedAt,
+      expiresAt: issuedAt + response.data.expires_in * 1000,
+    };
   } catch (error) {
-    console.error('Error fetching streams:', error);
+    console.error('Error fetching socket token:', error);
     throw error;
   }
 };
 
-export const fetchDefaultStreams = async (): Promise<Stream[]> => {
-  try {
-    const response = await api.get<Stream[]>('/streams/default/');
-    return response.data;
-  } catch (error) {
-    console.error('Error fetching default streams:', error);
-    throw error;
-  }
-};
+const httpStreamRepository: StreamRepository = {
+  async list() {
+    try {
+      const response = await api.get<Stream[]>('/streams/');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching streams:', error);
+      throw error;
+    }
+  },
 
-export const fetchStreamById = async (id: string | number): Promise<Stream> => {
-  try {
-    const response = await api.get<Stream>(`/streams/${id}/`);
-    return response.data;
-  } catch (error) {
-    console.error(`Error fetching stream with id ${id}:`, error);
-    throw error;
-  }
-};
+  async listDefaults() {
+    try {
+      const response = await api.get<Stream[]>('/streams/default/');
+      return response.data;
+    } catch (error) {
+      console.error('Error fetching default streams:', error);
+      throw error;
+    }
+  },
 
-export const createStream = async (stream: Omit<Stream, 'id' | 'created_at' | 'updated_at'>): Promise<Stream> => {
-  try {
-    const response = await api.post<Stream>('/streams/', stream);
-    return response.data;
-  } catch (error) {
-    console.error('Error creating stream:', error);
-    throw error;
-  }
-};
+  async get(id) {
+    try {
+      const response = await api.get<Stream>(`/streams/${id}/`);
+      return response.data;
+    } catch (error) {
+      console.error(`Error fetching stream with id ${id}:`, error);
+      throw error;
+    }
+  },
 
-export const updateStream = async (id: string | number, stream: Partial<Stream>): Promise<Stream> => {
-  try {
-    const response = await api.put<Stream>(`/streams/${id}/`, stream);
-    return response.data;
-  } catch (error) {
-    console.error(`Error updating stream with id ${id}:`, error);
-    throw error;
-  }
+  async create(stream) {
+    try {
+      const response = await api.post<Stream>('/streams/', stream);
+      return response.data;
+    } catch (error) {
+      console.error('Error creating stream:', error);
+      throw error;
+    }
+  },
+
+  async update(id, stream) {
+    try {
+      const response = await api.put<Stream>(`/streams/${id}/`, stream);
+      return response.data;
+    } catch (error) {
+      console.error(`Error updating stream with id ${id}:`, error);
+      throw error;
+    }
+  },
+
+  async remove(id) {
+    try {
+      await api.delete(`/streams/${id}/`);
+    } catch (error) {
+      console.error(`Error deleting stream with id ${id}:`, error);
+      throw error;
+    }
+  },
 };
 
-export const deleteStream = async (id: string | number): Promise<void> => {
-  try {
-    await api.delete(`/streams/${id}/`);
-  } catch (error) {
-    console.error(`Error deleting stream with id ${id}:`, error);
-    throw error;
-  }
-}; 
\ No newline at end of file
+const repository = (): StreamRepository =>
+  getConfig().demoMode ? demoStreamRepository : httpStreamRepository;
+
+export const fetchStreams = (): Promise<Stream[]> => repository().list();
+
+export const fetchDefaultStreams = (): Promise<Stream[]> => repository().listDefaults();
+
+export const fetchStreamById = (id: string | number): Promise<Stream> => repository().get(id);
+
+export const createStream = (stream: NewStream): Promise<Stream> => repository().create(stream);
+
+export const updateStream = (id: string | number, stream: Partial<Stream>): Promise<Stream> =>
+  repository().update(id, stream);
+
+export const deleteStream = (id: string | number): Promise<void> => repository().remove(id);
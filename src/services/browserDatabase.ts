@@ -0,0 +1,68 @@
+const DB_NAME = 'skylark';
+// Bump when adding a store
+const DB_VERSION = 2;
+// Every store is keyed by an auto-incremented `id` and indexed by stream
+const STORES = ['snapshots', 'recordings'] as const;
+
+export type StoreName = (typeof STORES)[number];
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORES.forEach((name) => {
+          if (db.objectStoreNames.contains(name)) return;
+          const store = db.createObjectStore(name, { keyPath: 'id', autoIncrement: true });
+          store.createIndex('streamKey', 'streamKey');
+        });
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab is upgrading; step aside instead of blocking it
+        db.onversionchange = () => {
+          db.close();
+          database = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('The local database is open in an older version of the app'));
+    });
+    // Let the next call try again instead of repeating the failure forever
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+const settle = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const objectStore = async (name: StoreName, mode: IDBTransactionMode): Promise<IDBObjectStore> =>
+  (await openDatabase()).transaction(name, mode).objectStore(name);
+
+/**
+ * Small helpers over the app's IndexedDB database, which unlike localStorage holds
+ * images and video of any size. Records carry a `streamKey` so they can be listed per stream.
+ */
+export async function addRecord<T extends { streamKey: string }>(name: StoreName, value: T): Promise<T & { id: number }> {
+  const id = await settle((await objectStore(name, 'readwrite')).add(value));
+  return { ...value, id: id as number };
+}
+
+export async function listRecords<T>(name: StoreName, streamKey: string): Promise<T[]> {
+  const store = await objectStore(name, 'readonly');
+  return settle(store.index('streamKey').getAll(streamKey) as IDBRequest<T[]>);
+}
+
+export async function deleteRecord(name: StoreName, id: number): Promise<void> {
+  await settle((await objectStore(name, 'readwrite')).delete(id));
+}
@@ -0,0 +1,154 @@
+import type { FrameRingBuffer } from './frameBuffer';
+import { onPaint } from './paintLoop';
+import type { Recording, RecordingProgress, RecordingStopReason } from '../types/recording';
+import type { PrivacyMask } from '../types/stream';
+import { frameToBlob } from '../utils/frameCodec';
+import { PrivacyMasker, createDomScratch } from '../utils/privacyMask';
+
+interface ClipRecorderOptions {
+  frames: FrameRingBuffer;
+  maxBytes: number;
+  maxDurationMs: number;
+  privacyMasks?: PrivacyMask[];
+}
+
+export type RecordedClip = Pick<Recording, 'startedAt' | 'endedAt' | 'mimeType' | 'size' | 'stopReason' | 'blob'>;
+
+// Best first; browsers that can't do WebM at all don't get a record button
+const MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+// How often the recorder hands over data, which is also how often the size cap is checked
+const CHUNK_MS = 1000;
+
+export const supportsRecording = (): boolean =>
+  typeof MediaRecorder !== 'undefined'
+  && 'captureStream' in HTMLCanvasElement.prototype
+  && MIME_TYPES.some((type) => MediaRecorder.isTypeSupported(type));
+
+/**
+ * Records a stream to WebM with `canvas.captureStream()` and `MediaRecorder`. The player's own
+ * canvas belongs to the renderer worker and can't be captured, so the recorder paints the
+ * session's frames into a canvas of its own, at the frame's native size and without zoom.
+ */
+export class ClipRecorder {
+  private readonly frames: FrameRingBuffer;
+  private readonly maxBytes: number;
+  private readonly maxDurationMs: number;
+  private readonly canvas = document.createElement('canvas');
+  private readonly masker = new PrivacyMasker(createDomScratch);
+  private recorder: MediaRecorder | null = null;
+  private stopPainting: (() => void) | null = null;
+  private durationTimer: number | null = null;
+  private readonly chunks: Blob[] = [];
+  private bytes = 0;
+  private startedAt = 0;
+  private paintedPosition = -1;
+  private decoding = false;
+  private stopReason: RecordingStopReason = 'user';
+  private resolveFinished: (clip: RecordedClip) => void = () => {};
+  // Settles once the recorder has flushed its last chunk, however the recording ended
+  readonly finished: Promise<RecordedClip>;
+
+  constructor({ frames, maxBytes, maxDurationMs, privacyMasks = [] }: ClipRecorderOptions) {
+    this.frames = frames;
+    this.masker.setMasks(privacyMasks);
+    this.maxBytes = maxBytes;
+    this.maxDurationMs = maxDurationMs;
+    this.finished = new Promise((resolve) => {
+      this.resolveFinished = resolve;
+    });
+  }
+
+  // Starts from the newest frame; fails if there is none yet
+  async start(): Promise<void> {
+    const frame = this.frames.latest();
+    if (!frame) throw new Error('There is no frame to record yet');
+
+    // The first frame decides the clip's size, later frames are scaled into it
+    const bitmap = await createImageBitmap(frameToBlob(frame));
+    this.canvas.width = bitmap.width;
+    this.canvas.height = bitmap.height;
+    this.draw(bitmap);
+    this.paintedPosition = this.frames.position;
+
+    const mimeType = MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? '';
+    const recorder = new MediaRecorder(this.canvas.captureStream(), { mimeType });
+    recorder.ondataavailable = this.handleData;
+    recorder.onstop = this.handleStop;
+    recorder.onerror = (event) => {
+      console.error('Recording failed:', event);
+      this.stop('error');
+    };
+    this.recorder = recorder;
+
+    this.startedAt = Date.now();
+    recorder.start(CHUNK_MS);
+    this.stopPainting = onPaint(this.paint);
+    this.durationTimer = window.setTimeout(() => this.stop('duration'), this.maxDurationMs);
+  }
+
+  stop(reason: RecordingStopReason = 'user'): void {
+    if (!this.recorder || this.recorder.state === 'inactive') return;
+    this.stopReason = reason;
+    this.stopPainting?.();
+    this.stopPainting = null;
+    if (this.durationTimer !== null) {
+      clearTimeout(this.durationTimer);
+      this.durationTimer = null;
+    }
+    this.recorder.stop();
+  }
+
+  // Applies from the next frame; frames already recorded keep the masks they had
+  setPrivacyMasks(masks: PrivacyMask[]): void {
+    this.masker.setMasks(masks);
+  }
+
+  getProgress(): RecordingProgress {
+    return { elapsedMs: this.startedAt ? Date.now() - this.startedAt : 0, bytes: this.bytes };
+  }
+
+  private paint = () => {
+    if (this.decoding || this.frames.position === this.paintedPosition) return;
+    const frame = this.frames.latest();
+    if (!frame) return;
+    this.paintedPosition = this.frames.position;
+    this.decoding = true;
+
+    createImageBitmap(frameToBlob(frame)).then((bitmap) => {
+      this.decoding = false;
+      this.draw(bitmap);
+    }, (err) => {
+      this.decoding = false;
+      console.warn('Recorder: failed to decode frame', err);
+    });
+  };
+
+  private draw(bitmap: ImageBitmap): void {
+    const ctx = this.canvas.getContext('2d');
+    if (ctx) {
+      ctx.drawImage(bitmap, 0, 0, this.canvas.width, this.canvas.height);
+      this.masker.apply(ctx, bitmap, 0, 0, this.canvas.width, this.canvas.height);
+    }
+    bitmap.close();
+  }
+
+  private handleData = (event: BlobEvent) => {
+    if (event.data.size === 0) return;
+    this.chunks.push(event.data);
+    this.bytes += event.data.size;
+    if (this.bytes >= this.maxBytes) this.stop('size');
+  };
+
+  private handleStop = () => {
+    const mimeType = this.recorder?.mimeType || 'video/webm';
+    const blob = new Blob(this.chunks, { type: mimeType });
+    this.resolveFinished({
+      startedAt: this.startedAt,
+      endedAt: Date.now(),
+      mimeType,
+      size: blob.size,
+      stopReason: this.stopReason,
+      blob,
+    });
+  };
+}
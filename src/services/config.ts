@@ -0,0 +1,182 @@
+import type { FrameTransport } from '../types/stream';
+import type { ReconnectPolicy, SocketAuthMode } from '../types/socket';
+
+export interface AppConfig {
+  // Base URL of the REST API, e.g. https://cams.example.com/skylark/api
+  apiUrl: string;
+  // Full URL of the stream WebSocket endpoint, e.g. wss://cams.example.com/skylark/ws/streams/
+  wsUrl: string;
+  frameTransport: FrameTransport;
+  // How the socket token from /auth/ws-token/ is sent on the handshake, or 'off' for open
+  // backends. Backends without the endpoint are connected to without a token.
+  socketAuth: SocketAuthMode;
+  // Serve streams and frames from in-browser fakes instead of the backend
+  demoMode: boolean;
+  // Let all open tabs share one socket, run by whichever tab holds the leader lock
+  shareConnection: boolean;
+  reconnect: ReconnectPolicy;
+  // A stream counts as stalled when no frame arrives for this many frame intervals
+  stallFrameMultiple: number;
+  // Local recordings stop on their own at whichever cap comes first
+  maxRecordingMb: number;
+  maxRecordingSeconds: number;
+  // The live player keeps this much of each stream for rewinding, whichever cap comes first
+  rewindSeconds: number;
+  rewindMaxMb: number;
+}
+
+type ConfigOverrides = Partial<AppConfig>;
+
+const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  baseDelayMs: 3000,
+  factor: 1.5,
+  maxDelayMs: 30000,
+  jitter: 0.2,
+  maxAttempts: 10,
+};
+
+// Without any configuration the backend is expected on port 8000 of the same host
+const defaultConfig = (): AppConfig => {
+  const hostname = window.location.hostname || 'localhost';
+  const wsProtocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return {
+    apiUrl: `${window.location.protocol}//${hostname}:8000/api`,
+    wsUrl: `${wsProtocol}//${hostname}:8000/ws/streams/`,
+    frameTransport: 'binary',
+    socketAuth: 'query',
+    demoMode: false,
+    shareConnection: false,
+    reconnect: DEFAULT_RECONNECT_POLICY,
+    stallFrameMultiple: 10,
+    maxRecordingMb: 250,
+    maxRecordingSeconds: 600,
+    rewindSeconds: 30,
+    rewindMaxMb: 64,
+  };
+};
+
+const isEnabled = (value: string): boolean =>
+  ['1', 'true', 'yes', 'on'].includes(value.toLowerCase());
+
+const envConfig = (): ConfigOverrides => {
+  const env = import.meta.env;
+  const overrides: ConfigOverrides = {};
+  if (env.VITE_API_URL) overrides.apiUrl = env.VITE_API_URL;
+  if (env.VITE_WS_URL) overrides.wsUrl = env.VITE_WS_URL;
+  if (env.VITE_FRAME_TRANSPORT) overrides.frameTransport = env.VITE_FRAME_TRANSPORT as FrameTransport;
+  if (env.VITE_SOCKET_AUTH) overrides.socketAuth = env.VITE_SOCKET_AUTH as SocketAuthMode;
+  if (env.VITE_DEMO_MODE) overrides.demoMode = isEnabled(env.VITE_DEMO_MODE);
+  if (env.VITE_SHARE_CONNECTION) overrides.shareConnection = isEnabled(env.VITE_SHARE_CONNECTION);
+  return overrides;
+};
+
+// `?demo` or `?demo=1` turns demo mode on for this page load, `?demo=0` turns it off
+const queryConfig = (): ConfigOverrides => {
+  const demo = new URLSearchParams(window.location.search).get('demo');
+  return demo === null ? {} : { demoMode: demo === '' || isEnabled(demo) };
+};
+
+// Relative URLs ("/skylark/api") resolve against the page, so one build works behind any proxy
+const resolveHttpUrl = (url: string): string =>
+  new URL(url, window.location.href).toString().replace(/\/$/, '');
+
+const resolveWsUrl = (url: string): string => {
+  const resolved = new URL(url, window.location.href);
+  if (resolved.protocol === 'http:') resolved.protocol = 'ws:';
+  if (resolved.protocol === 'https:') resolved.protocol = 'wss:';
+  return resolved.toString();
+};
+
+const isFrameTransport = (value: unknown): value is FrameTransport =>
+  value === 'binary' || value === 'json';
+
+const isSocketAuthMode = (value: unknown): value is SocketAuthMode =>
+  value === 'query' || value === 'subprotocol' || value === 'off';
+
+const numberAtLeast = (value: unknown, min: number, fallback: number): number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min ? value : fallback;
+
+// Missing or invalid fields fall back to the defaults one by one
+const normalizeReconnect = (policy: Partial<Record<keyof ReconnectPolicy, unknown>>): ReconnectPolicy => {
+  const defaults = DEFAULT_RECONNECT_POLICY;
+  return {
+    baseDelayMs: numberAtLeast(policy.baseDelayMs, 0, defaults.baseDelayMs),
+    factor: numberAtLeast(policy.factor, 1, defaults.factor),
+    maxDelayMs: numberAtLeast(policy.maxDelayMs, 0, defaults.maxDelayMs),
+    jitter: Math.min(1, numberAtLeast(policy.jitter, 0, defaults.jitter)),
+    maxAttempts: policy.maxAttempts === 'forever'
+      ? 'forever'
+      : Math.round(numberAtLeast(policy.maxAttempts, 0, defaults.maxAttempts as number)),
+  };
+};
+
+const normalize = (config: AppConfig): AppConfig => ({
+  apiUrl: resolveHttpUrl(config.apiUrl),
+  wsUrl: resolveWsUrl(config.wsUrl),
+  frameTransport: isFrameTransport(config.frameTransport) ? config.frameTransport : 'binary',
+  socketAuth: isSocketAuthMode(config.socketAuth) ? config.socketAuth : 'query',
+  demoMode: config.demoMode === true,
+  shareConnection: config.shareConnection === true,
+  reconnect: normalizeReconnect(config.reconnect ?? {}),
+  stallFrameMultiple: numberAtLeast(config.stallFrameMultiple, 1, 10),
+  maxRecordingMb: numberAtLeast(config.maxRecordingMb, 1, 250),
+  maxRecordingSeconds: numberAtLeast(config.maxRecordingSeconds, 1, 600),
+  rewindSeconds: numberAtLeast(config.rewindSeconds, 1, 30),
+  rewindMaxMb: numberAtLeast(config.rewindMaxMb, 1, 64),
+});
+
+const pickOverrides = (data: unknown): ConfigOverrides => {
+  if (typeof data !== 'object' || data === null) return {};
+  const raw = data as Record<string, unknown>;
+  const overrides: ConfigOverrides = {};
+  if (typeof raw.apiUrl === 'string') overrides.apiUrl = raw.apiUrl;
+  if (typeof raw.wsUrl === 'string') overrides.wsUrl = raw.wsUrl;
+  if (isFrameTransport(raw.frameTransport)) overrides.frameTransport = raw.frameTransport;
+  if (isSocketAuthMode(raw.socketAuth)) overrides.socketAuth = raw.socketAuth;
+  if (typeof raw.demoMode === 'boolean') overrides.demoMode = raw.demoMode;
+  if (typeof raw.shareConnection === 'boolean') overrides.shareConnection = raw.shareConnection;
+  if (typeof raw.reconnect === 'object' && raw.reconnect !== null) {
+    overrides.reconnect = normalizeReconnect(raw.reconnect as Record<string, unknown>);
+  }
+  if (typeof raw.stallFrameMultiple === 'number') overrides.stallFrameMultiple = raw.stallFrameMultiple;
+  if (typeof raw.maxRecordingMb === 'number') overrides.maxRecordingMb = raw.maxRecordingMb;
+  if (typeof raw.maxRecordingSeconds === 'number') overrides.maxRecordingSeconds = raw.maxRecordingSeconds;
+  if (typeof raw.rewindSeconds === 'number') overrides.rewindSeconds = raw.rewindSeconds;
+  if (typeof raw.rewindMaxMb === 'number') overrides.rewindMaxMb = raw.rewindMaxMb;
+  return overrides;
+};
+
+let currentConfig: AppConfig = normalize({ ...defaultConfig(), ...envConfig(), ...queryConfig() });
+let loadPromise: Promise<AppConfig> | null = null;
+
+/**
+ * Fetches the optional runtime override from `config.json` next to index.html.
+ * Values there win over the VITE_* build-time variables, which win over the defaults.
+ * The `?demo` query parameter wins over everything.
+ */
+export const loadConfig = (): Promise<AppConfig> => {
+  if (!loadPromise) {
+    loadPromise = (async () => {
+      try {
+        const response = await fetch(`${import.meta.env.BASE_URL}config.json`, { cache: 'no-store' });
+        const contentType = response.headers.get('content-type') || '';
+        if (response.ok && contentType.includes('json')) {
+          const overrides = pickOverrides(await response.json());
+          currentConfig = normalize({ ...currentConfig, ...overrides, ...queryConfig() });
+          console.log('Loaded runtime config overrides:', Object.keys(overrides));
+        }
+      } catch (error) {
+        console.warn('Failed to load runtime config, using build-time settings:', error);
+      }
+      if (currentConfig.demoMode) {
+        console.log('Demo mode enabled, using the in-browser backend');
+      } else {
+        console.log('Using API URL:', currentConfig.apiUrl, 'WebSocket URL:', currentConfig.wsUrl);
+      }
+      return currentConfig;
+    })();
+  }
+  return loadPromise;
+};
+
+export const getConfig = (): AppConfig => currentConfig;
@@ -0,0 +1,97 @@
+import type { NewStream, Stream, StreamRepository } from '../types/stream';
+
+const STORAGE_KEY = 'skylark.demoStreams';
+// Enough to see loading states without slowing the demo down
+const LATENCY_MS = 150;
+
+/**
+ * Cameras served by the demo socket. Keywords in the URL script its behaviour: `error` never
+ * starts, `timeout` never answers, `flaky` fails after a while, `stall` pauses its frames.
+ */
+export const DEMO_STREAMS: Record<string, string> = {
+  'Test Pattern': 'rtsp://demo.skylark.local/test-pattern',
+  'Lobby Camera': 'rtsp://demo.skylark.local/lobby',
+  'Parking Lot': 'rtsp://demo.skylark.local/parking',
+  'Stalling Camera': 'rtsp://demo.skylark.local/stall',
+  'Flaky Camera': 'rtsp://demo.skylark.local/flaky',
+  'Offline Camera': 'rtsp://demo.skylark.local/error',
+  'Unresponsive Camera': 'rtsp://demo.skylark.local/timeout',
+};
+
+const defaultStreams = (): Stream[] => {
+  const now = new Date().toISOString();
+  return Object.entries(DEMO_STREAMS).map(([name, url], index) => ({
+    id: `demo-${index + 1}`,
+    name,
+    url,
+    description: 'Synthetic stream generated in the browser',
+    active: true,
+    created_at: now,
+    updated_at: now,
+  }));
+};
+
+const save = (streams: Stream[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(streams));
+};
+
+const load = (): Stream[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return JSON.parse(saved) as Stream[];
+  } catch (error) {
+    console.warn('Failed to read demo streams, starting over:', error);
+  }
+  const streams = defaultStreams();
+  save(streams);
+  return streams;
+};
+
+const delay = <T>(value: T): Promise<T> =>
+  new Promise((resolve) => setTimeout(() => resolve(value), LATENCY_MS));
+
+const find = (streams: Stream[], id: string | number): number => {
+  const index = streams.findIndex((stream) => String(stream.id) === String(id));
+  if (index === -1) throw new Error(`Stream ${id} not found`);
+  return index;
+};
+
+// Keeps the stream list in localStorage so demo edits survive a reload
+export const demoStreamRepository: StreamRepository = {
+  async list() {
+    return delay(load());
+  },
+
+  async listDefaults() {
+    return delay(defaultStreams());
+  },
+
+  async get(id) {
+    const streams = load();
+    return delay(streams[find(streams, id)]);
+  },
+
+  async create(data: NewStream) {
+    const streams = load();
+    const now = new Date().toISOString();
+    const stream: Stream = { ...data, id: `demo-${Date.now().toString(36)}`, created_at: now, updated_at: now };
+    save([...streams, stream]);
+    return delay(stream);
+  },
+
+  async update(id, data) {
+    const streams = load();
+    const index = find(streams, id);
+    const stream = { ...streams[index], ...data, id: streams[index].id, updated_at: new Date().toISOString() };
+    streams[index] = stream;
+    save(streams);
+    return delay(stream);
+  },
+
+  async remove(id) {
+    const streams = load();
+    find(streams, id);
+    save(streams.filter((stream) => String(stream.id) !== String(id)));
+    await delay(undefined);
+  },
+};
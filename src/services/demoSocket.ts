@@ -0,0 +1,332 @@
+import type { FrameTransport } from '../types/stream';
+import type { OutboundMessage, SocketTransport, StartStreamAction, StreamOptions } from '../types/socket';
+import { encodeBinaryFrame } from '../utils/frameCodec';
+import { DEMO_STREAMS } from './demoRepository';
+
+const FRAME_WIDTH = 640;
+const FRAME_HEIGHT = 360;
+const FRAME_RATE = 10;
+const MAX_FRAME_RATE = 30;
+const MIN_FRAME_WIDTH = 160;
+const JPEG_QUALITY = 70;
+const CONNECT_DELAY_MS = 200;
+// How long opening the "RTSP source" takes
+const START_DELAY_MS = 600;
+const FLAKY_FAILURE_AFTER_MS = 15000;
+// Stalling cameras play for 12 seconds, then send nothing for 8
+const STALL_CYCLE_MS = 20000;
+const STALL_DURATION_MS = 8000;
+
+const COLOR_BARS = ['#c0c0c0', '#c0c000', '#00c0c0', '#00c000', '#c000c0', '#c00000', '#0000c0'];
+
+// Scripted behaviour, picked by keywords in the RTSP URL
+type Scenario = 'normal' | 'error' | 'timeout' | 'flaky' | 'stall';
+
+const scenarioFor = (rtspUrl: string): Scenario => {
+  const url = rtspUrl.toLowerCase();
+  if (url.includes('error') || url.includes('offline')) return 'error';
+  if (url.includes('timeout')) return 'timeout';
+  if (url.includes('flaky')) return 'flaky';
+  if (url.includes('stall')) return 'stall';
+  return 'normal';
+};
+
+// Stable per-URL hue, so every demo camera looks a little different
+const hueFor = (rtspUrl: string): number => {
+  let hash = 0;
+  for (let i = 0; i < rtspUrl.length; i++) {
+    hash = (hash * 31 + rtspUrl.charCodeAt(i)) | 0;
+  }
+  return Math.abs(hash) % 360;
+};
+
+const labelFor = (rtspUrl: string): string =>
+  Object.keys(DEMO_STREAMS).find((name) => DEMO_STREAMS[name] === rtspUrl) ?? rtspUrl;
+
+interface DemoSession {
+  id: string;
+  rtspUrl: string;
+  label: string;
+  hue: number;
+  transport: FrameTransport;
+  scenario: Scenario;
+  startedAt: number;
+  sequence: number;
+  timer: number | null;
+  fps: number;
+  width: number;
+  quality: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(value)));
+
+// Applies requested options the way a backend would, clamped to what the source can do
+const applyOptions = (session: DemoSession, options: StreamOptions) => {
+  if (options.fps !== undefined) session.fps = options.fps === 0 ? FRAME_RATE : clamp(options.fps, 1, MAX_FRAME_RATE);
+  if (options.max_width !== undefined) {
+    session.width = options.max_width === 0 ? FRAME_WIDTH : clamp(options.max_width, MIN_FRAME_WIDTH, FRAME_WIDTH);
+  }
+  if (options.jpeg_quality !== undefined) session.quality = clamp(options.jpeg_quality, 1, 100);
+};
+
+/**
+ * Stands in for the backend WebSocket in demo mode. Answers the same actions and renders
+ * a test pattern with a clock for every started stream, so the app runs without a server.
+ */
+export class DemoSocket implements SocketTransport {
+  readyState: number = WebSocket.CONNECTING;
+  binaryType: BinaryType = 'arraybuffer';
+  onopen: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  private readonly sessions: Map<string, DemoSession> = new Map();
+  private canvas: HTMLCanvasElement | null = null;
+
+  constructor() {
+    console.log('Connecting to the demo backend');
+    window.setTimeout(() => {
+      if (this.readyState !== WebSocket.CONNECTING) return;
+      this.readyState = WebSocket.OPEN;
+      this.onopen?.(new Event('open'));
+    }, CONNECT_DELAY_MS);
+  }
+
+  send(data: string | ArrayBufferLike | Blob | ArrayBufferView): void {
+    if (this.readyState !== WebSocket.OPEN) {
+      throw new DOMException('Demo socket is not open', 'InvalidStateError');
+    }
+    // The backend only accepts JSON actions
+    if (typeof data !== 'string') return;
+
+    let message: OutboundMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      this.reply({ type: 'stream.error', message: 'Invalid JSON' });
+      return;
+    }
+    this.handleAction(message);
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState === WebSocket.CLOSING || this.readyState === WebSocket.CLOSED) return;
+    this.readyState = WebSocket.CLOSING;
+    this.sessions.forEach((session) => this.stopFrames(session));
+    this.sessions.clear();
+
+    window.setTimeout(() => {
+      this.readyState = WebSocket.CLOSED;
+      this.onclose?.(new CloseEvent('close', { code, reason, wasClean: true }));
+    }, 0);
+  }
+
+  private handleAction(message: OutboundMessage): void {
+    switch (message.action) {
+      case 'ping':
+        this.reply({ type: 'pong', request_id: message.request_id, timestamp: Date.now() });
+        break;
+      case 'get_available_streams':
+        this.reply({ type: 'available_streams', request_id: message.request_id, streams: DEMO_STREAMS });
+        break;
+      case 'start_stream':
+        this.startSession(message);
+        break;
+      case 'set_stream_options': {
+        const session = this.sessions.get(message.session_id);
+        if (!session) {
+          this.reply({ type: 'stream.error', request_id: message.request_id, session_id: message.session_id, message: 'Stream is not running' });
+          break;
+        }
+        applyOptions(session, message);
+        if (session.timer) this.startFrames(session);
+        this.reply({
+          type: 'stream.options',
+          request_id: message.request_id,
+          session_id: session.id,
+          fps: session.fps,
+          max_width: session.width,
+          jpeg_quality: session.quality,
+        });
+        break;
+      }
+      case 'stop_stream': {
+        const session = this.sessions.get(message.session_id);
+        if (session) this.stopFrames(session);
+        this.sessions.delete(message.session_id);
+        this.reply({ type: 'stream.stopped', request_id: message.request_id, session_id: message.session_id });
+        break;
+      }
+      default:
+        this.reply({
+          type: 'stream.error',
+          message: `Unknown action: ${String((message as { action?: unknown }).action)}`,
+        });
+    }
+  }
+
+  private startSession(action: StartStreamAction): void {
+    const previous = this.sessions.get(action.session_id);
+    if (previous) this.stopFrames(previous);
+
+    const session: DemoSession = {
+      id: action.session_id,
+      rtspUrl: action.rtsp_url,
+      label: labelFor(action.rtsp_url),
+      hue: hueFor(action.rtsp_url),
+      transport: action.transport ?? 'json',
+      scenario: scenarioFor(action.rtsp_url),
+      startedAt: 0,
+      sequence: 0,
+      timer: null,
+      fps: FRAME_RATE,
+      width: FRAME_WIDTH,
+      quality: JPEG_QUALITY,
+    };
+    applyOptions(session, action);
+    this.sessions.set(session.id, session);
+    this.reply({ type: 'stream.starting', session_id: session.id, message: 'Opening demo source' });
+
+    // An unresponsive camera never answers, so the client's start timeout kicks in
+    if (session.scenario === 'timeout') return;
+
+    window.setTimeout(() => {
+      if (this.sessions.get(session.id) !== session) return;
+
+      if (session.scenario === 'error') {
+        this.sessions.delete(session.id);
+        this.reply({
+          type: 'stream.error',
+          request_id: action.request_id,
+          session_id: session.id,
+          message: `Could not connect to ${session.rtspUrl}: connection refused`,
+        });
+        return;
+      }
+
+      session.startedAt = Date.now();
+      this.reply({
+        type: 'stream.started',
+        request_id: action.request_id,
+        session_id: session.id,
+        width: session.width,
+        height: Math.round(FRAME_HEIGHT * session.width / FRAME_WIDTH),
+        fps: session.fps,
+        stream_url: session.rtspUrl,
+      });
+      this.startFrames(session);
+    }, START_DELAY_MS);
+  }
+
+  private startFrames(session: DemoSession): void {
+    this.stopFrames(session);
+    session.timer = window.setInterval(() => this.tick(session), 1000 / session.fps);
+  }
+
+  private stopFrames(session: DemoSession): void {
+    if (session.timer) {
+      clearInterval(session.timer);
+      session.timer = null;
+    }
+  }
+
+  private tick(session: DemoSession): void {
+    const elapsed = Date.now() - session.startedAt;
+
+    if (session.scenario === 'flaky' && elapsed > FLAKY_FAILURE_AFTER_MS) {
+      this.stopFrames(session);
+      this.sessions.delete(session.id);
+      this.reply({ type: 'stream.error', session_id: session.id, message: 'Lost connection to the camera' });
+      return;
+    }
+    if (session.scenario === 'stall' && elapsed % STALL_CYCLE_MS > STALL_CYCLE_MS - STALL_DURATION_MS) {
+      return;
+    }
+
+    session.sequence += 1;
+    const canvas = this.renderFrame(session, elapsed);
+    const timestamp = Date.now();
+    const sequence = session.sequence;
+
+    if (session.transport === 'json') {
+      const dataUrl = canvas.toDataURL('image/jpeg', session.quality / 100);
+      this.reply({
+        type: 'stream.frame',
+        session_id: session.id,
+        frame: dataUrl.slice(dataUrl.indexOf(',') + 1),
+        timestamp,
+        sequence,
+      });
+      return;
+    }
+
+    // toBlob copies the canvas right away, so the next frame can reuse it
+    canvas.toBlob((blob) => {
+      if (!blob || this.sessions.get(session.id) !== session) return;
+      blob.arrayBuffer().then((bytes) => {
+        this.emit(encodeBinaryFrame({ sessionId: session.id, timestamp, sequence, data: new Uint8Array(bytes) }));
+      });
+    }, 'image/jpeg', session.quality / 100);
+  }
+
+  private renderFrame(session: DemoSession, elapsed: number): HTMLCanvasElement {
+    if (!this.canvas) {
+      this.canvas = document.createElement('canvas');
+    }
+    const canvas = this.canvas;
+    const scale = session.width / FRAME_WIDTH;
+    canvas.width = session.width;
+    canvas.height = Math.round(FRAME_HEIGHT * scale);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return canvas;
+    // Draw in full-size coordinates, scaled down to the requested width
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+
+    // Colour bars over a per-camera tinted band
+    const barsHeight = Math.round(FRAME_HEIGHT * 0.7);
+    const barWidth = FRAME_WIDTH / COLOR_BARS.length;
+    COLOR_BARS.forEach((color, index) => {
+      ctx.fillStyle = color;
+      ctx.fillRect(Math.floor(index * barWidth), 0, Math.ceil(barWidth), barsHeight);
+    });
+    ctx.fillStyle = `hsl(${session.hue}, 55%, 22%)`;
+    ctx.fillRect(0, barsHeight, FRAME_WIDTH, FRAME_HEIGHT - barsHeight);
+
+    // A sweeping line makes motion and dropped frames easy to spot
+    const sweepX = ((elapsed / 4000) % 1) * FRAME_WIDTH;
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+    ctx.fillRect(sweepX - 2, 0, 4, barsHeight);
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(12, 12, Math.min(FRAME_WIDTH - 24, 24 + session.label.length * 12), 36);
+    ctx.fillStyle = '#ffffff';
+    ctx.textBaseline = 'middle';
+    ctx.font = 'bold 20px monospace';
+    ctx.fillText(session.label, 24, 30);
+
+    const now = new Date();
+    const millis = String(now.getMilliseconds()).padStart(3, '0');
+    ctx.font = 'bold 32px monospace';
+    ctx.fillText(`${now.toLocaleTimeString()}.${millis}`, 24, barsHeight + (FRAME_HEIGHT - barsHeight) / 2);
+
+    ctx.font = '16px monospace';
+    ctx.textAlign = 'right';
+    ctx.fillText(`DEMO  #${session.sequence}`, FRAME_WIDTH - 24, barsHeight + (FRAME_HEIGHT - barsHeight) / 2);
+    ctx.textAlign = 'left';
+
+    return canvas;
+  }
+
+  private reply(message: Record<string, unknown>): void {
+    this.emit(JSON.stringify(message));
+  }
+
+  // Deliver asynchronously, like a real socket
+  private emit(data: string | ArrayBuffer): void {
+    window.setTimeout(() => {
+      if (this.readyState !== WebSocket.OPEN) return;
+      this.onmessage?.(new MessageEvent('message', { data }));
+    }, 0);
+  }
+}
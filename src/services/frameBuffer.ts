@@ -0,0 +1,39 @@
+import type { StreamFrame } from '../types/stream';
+
+// Something a player can paint from: `position` changes whenever `latest()` has a new frame
+export interface FrameSource {
+  readonly position: number;
+  latest(): StreamFrame | null;
+}
+
+/**
+ * The last few frames of a stream, kept outside React. Writers push as frames arrive;
+ * readers compare `position` with the last one they saw and only take the newest frame.
+ */
+export class FrameRingBuffer implements FrameSource {
+  private readonly slots: (StreamFrame | null)[];
+  private written = 0;
+
+  constructor(capacity: number) {
+    this.slots = new Array(Math.max(1, capacity)).fill(null);
+  }
+
+  // Number of frames pushed so far, also across clear()
+  get position(): number {
+    return this.written;
+  }
+
+  push(frame: StreamFrame): void {
+    this.slots[this.written % this.slots.length] = frame;
+    this.written += 1;
+  }
+
+  latest(): StreamFrame | null {
+    if (this.written === 0) return null;
+    return this.slots[(this.written - 1) % this.slots.length];
+  }
+
+  clear(): void {
+    this.slots.fill(null);
+  }
+}
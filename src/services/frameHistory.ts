@@ -0,0 +1,73 @@
+import type { StreamFrame } from '../types/stream';
+import { frameByteLength } from '../utils/frameCodec';
+
+/**
+ * The last few seconds of a stream's frames, for rewinding. Bounded both by age and by
+ * memory; whichever limit is hit first drops the oldest frames. Frames are addressed by a
+ * sequence number that keeps counting as old frames are dropped, so a reader's place in
+ * the history stays valid.
+ */
+export class FrameHistory {
+  private readonly maxAgeMs: number;
+  private readonly maxBytes: number;
+  // Oldest first
+  private readonly frames: StreamFrame[] = [];
+  private bytes = 0;
+  // Sequence number of frames[0]
+  private firstSeq = 0;
+
+  constructor(maxAgeMs: number, maxBytes: number) {
+    this.maxAgeMs = maxAgeMs;
+    this.maxBytes = maxBytes;
+  }
+
+  get size(): number {
+    return this.frames.length;
+  }
+
+  get byteSize(): number {
+    return this.bytes;
+  }
+
+  // Sequence numbers of the oldest and newest frame; the newest is below the oldest when empty
+  get startSeq(): number {
+    return this.firstSeq;
+  }
+
+  get endSeq(): number {
+    return this.firstSeq + this.frames.length - 1;
+  }
+
+  push(frame: StreamFrame): void {
+    this.frames.push(frame);
+    this.bytes += frameByteLength(frame);
+
+    const newest = frame.receivedAt;
+    while (this.frames.length > 1 && (this.bytes > this.maxBytes || newest - this.frames[0].receivedAt > this.maxAgeMs)) {
+      this.bytes -= frameByteLength(this.frames.shift()!);
+      this.firstSeq += 1;
+    }
+  }
+
+  get(seq: number): StreamFrame | null {
+    return this.frames[seq - this.firstSeq] ?? null;
+  }
+
+  // The newest frame received at or before `time`, or the oldest one if all are newer
+  seqAt(time: number): number {
+    let low = 0;
+    let high = this.frames.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this.frames[mid].receivedAt <= time) low = mid;
+      else high = mid - 1;
+    }
+    return this.firstSeq + low;
+  }
+
+  clear(): void {
+    this.firstSeq += this.frames.length;
+    this.frames.length = 0;
+    this.bytes = 0;
+  }
+}
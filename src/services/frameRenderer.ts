@@ -0,0 +1,192 @@
+import type { StreamFrame } from '../types/stream';
+import type { FrameRenderStats, RendererRequest, RendererResponse } from '../types/renderer';
+import type { MotionZone } from '../types/motion';
+import type { PrivacyMask } from '../types/stream';
+import { MotionAnalyzer } from '../utils/motion';
+import { PrivacyMasker, createDomScratch } from '../utils/privacyMask';
+
+/**
+ * Decodes frames and paints them onto one canvas, or only decodes them without one.
+ * Frames that arrive while another one is decoding replace each other, so a slow
+ * renderer skips stale frames instead of falling further behind.
+ */
+export interface FrameRenderer {
+  render(frame: StreamFrame): void;
+  // Motion levels come back with the stats while zones are set; an empty list watches the whole frame
+  setMotionZones(zones: MotionZone[] | null): void;
+  // Covered on every frame painted from now on
+  setPrivacyMasks(masks: PrivacyMask[]): void;
+  dispose(): void;
+}
+
+type StatsListener = (stats: FrameRenderStats) => void;
+
+const DECODE_ERROR = 'Failed to load video frame. Data might be corrupted or invalid.';
+
+export const supportsWorkerRendering = (): boolean =>
+  typeof Worker !== 'undefined'
+  && typeof OffscreenCanvas !== 'undefined'
+  && 'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+
+// Hands the canvas to a worker; the main thread only posts frames and hears back stats
+class WorkerFrameRenderer implements FrameRenderer {
+  private readonly worker: Worker;
+
+  constructor(canvas: HTMLCanvasElement | null, onStats: StatsListener) {
+    this.worker = new Worker(new URL('../workers/frameRenderer.worker.ts', import.meta.url), { type: 'module' });
+    this.worker.onmessage = (event: MessageEvent<RendererResponse>) => {
+      onStats(event.data);
+    };
+    this.worker.onerror = (event) => {
+      console.error('Frame renderer worker failed:', event.message);
+      onStats({ rendered: 0, dropped: 0, decodeMs: 0, width: 0, height: 0, error: 'Canvas rendering error.', motion: null });
+    };
+
+    const offscreen = canvas?.transferControlToOffscreen() ?? null;
+    this.post({ type: 'init', canvas: offscreen }, offscreen ? [offscreen] : []);
+  }
+
+  render(frame: StreamFrame): void {
+    if (typeof frame.data === 'string') {
+      this.post({ type: 'frame', data: frame.data });
+      return;
+    }
+    // The frame is a view into the whole socket message and may still be needed here,
+    // so the worker gets its own copy of just the JPEG bytes
+    const bytes = frame.data.slice();
+    this.post({ type: 'frame', data: bytes.buffer }, [bytes.buffer]);
+  }
+
+  setMotionZones(zones: MotionZone[] | null): void {
+    this.post({ type: 'motion', zones });
+  }
+
+  setPrivacyMasks(masks: PrivacyMask[]): void {
+    this.post({ type: 'masks', masks });
+  }
+
+  dispose(): void {
+    this.worker.terminate();
+  }
+
+  private post(request: RendererRequest, transfer: Transferable[] = []): void {
+    this.worker.postMessage(request, transfer);
+  }
+}
+
+// Decodes a frame into something the canvas can draw
+const decodeFrame = async (frame: StreamFrame): Promise<ImageBitmap | HTMLImageElement> => {
+  const frameData = frame.data;
+
+  if (typeof frameData !== 'string') {
+    if (frameData.byteLength === 0) throw new Error("Received invalid frame data format.");
+    // Binary transport: decode the raw JPEG bytes off the main thread
+    return createImageBitmap(new Blob([frameData], { type: 'image/jpeg' }));
+  }
+
+  if (frameData.trim() === "") throw new Error("Received invalid frame data format.");
+  // IMPORTANT: Construct the data URL assuming the JSON frame is PURE base64
+  // Do not add any cache-busting query parameters here.
+  const image = new Image();
+  image.src = `data:image/jpeg;base64,${frameData}`;
+  await image.decode();
+  return image;
+};
+
+// Fallback for browsers without OffscreenCanvas: decodes and paints on the main thread
+class CanvasFrameRenderer implements FrameRenderer {
+  private readonly canvas: HTMLCanvasElement | null;
+  private readonly onStats: StatsListener;
+  private decoding = false;
+  private queued: StreamFrame | null = null;
+  private dropped = 0;
+  private disposed = false;
+  private analyzer: MotionAnalyzer | null = null;
+  private readonly masker = new PrivacyMasker(createDomScratch);
+
+  constructor(canvas: HTMLCanvasElement | null, onStats: StatsListener) {
+    this.canvas = canvas;
+    this.onStats = onStats;
+  }
+
+  render(frame: StreamFrame): void {
+    if (this.queued) this.dropped += 1;
+    this.queued = frame;
+    if (!this.decoding) this.renderQueued();
+  }
+
+  setMotionZones(zones: MotionZone[] | null): void {
+    if (!zones) {
+      this.analyzer = null;
+      return;
+    }
+    this.analyzer ??= new MotionAnalyzer((width, height) => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      return canvas.getContext('2d', { willReadFrequently: true });
+    });
+    this.analyzer.setZones(zones);
+  }
+
+  setPrivacyMasks(masks: PrivacyMask[]): void {
+    this.masker.setMasks(masks);
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    this.queued = null;
+  }
+
+  private async renderQueued(): Promise<void> {
+    this.decoding = true;
+    while (this.queued && !this.disposed) {
+      const next = this.queued;
+      this.queued = null;
+      const startedAt = performance.now();
+      try {
+        const image = await decodeFrame(next);
+        if (image instanceof HTMLImageElement) {
+          this.draw(image, image.naturalWidth, image.naturalHeight, startedAt);
+        } else {
+          this.draw(image, image.width, image.height, startedAt);
+          image.close();
+        }
+      } catch (err) {
+        console.error("Frame renderer: Error decoding frame.", err);
+        this.report(0, 0, 0, 0, DECODE_ERROR, null);
+      }
+    }
+    this.decoding = false;
+  }
+
+  private draw(source: CanvasImageSource, width: number, height: number, startedAt: number): void {
+    if (this.disposed) return;
+    if (this.canvas) {
+      const ctx = this.canvas.getContext('2d');
+      if (!ctx) {
+        console.error("Frame renderer: Canvas 2D context not available.");
+        this.report(0, 0, 0, 0, 'Canvas rendering error.', null);
+        return;
+      }
+
+      // Set canvas dimensions to the natural dimensions of the decoded frame
+      if (width > 0 && height > 0) {
+        if (this.canvas.width !== width) this.canvas.width = width;
+        if (this.canvas.height !== height) this.canvas.height = height;
+      }
+      ctx.drawImage(source, 0, 0, this.canvas.width, this.canvas.height);
+      this.masker.apply(ctx, source, 0, 0, this.canvas.width, this.canvas.height);
+    }
+    const motion = this.analyzer && width > 0 && height > 0 ? this.analyzer.analyze(source, width, height) : null;
+    this.report(1, width, height, performance.now() - startedAt, null, motion);
+  }
+
+  private report(rendered: number, width: number, height: number, decodeMs: number, error: string | null, motion: number | null): void {
+    this.onStats({ rendered, dropped: this.dropped, decodeMs, width, height, error, motion });
+    this.dropped = 0;
+  }
+}
+
+export const createFrameRenderer = (canvas: HTMLCanvasElement | null, onStats: StatsListener): FrameRenderer =>
+  supportsWorkerRendering() ? new WorkerFrameRenderer(canvas, onStats) : new CanvasFrameRenderer(canvas, onStats);
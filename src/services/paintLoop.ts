@@ -0,0 +1,25 @@
+type PaintCallback = (now: number) => void;
+
+// One requestAnimationFrame loop for every player on the page, running while any are mounted
+const callbacks: Set<PaintCallback> = new Set();
+let request: number | null = null;
+
+const tick = (now: number) => {
+  request = null;
+  callbacks.forEach((callback) => callback(now));
+  if (callbacks.size > 0) request = requestAnimationFrame(tick);
+};
+
+// Calls `callback` once per display refresh until the returned function is called
+export const onPaint = (callback: PaintCallback): (() => void) => {
+  callbacks.add(callback);
+  if (request === null) request = requestAnimationFrame(tick);
+
+  return () => {
+    callbacks.delete(callback);
+    if (callbacks.size === 0 && request !== null) {
+      cancelAnimationFrame(request);
+      request = null;
+    }
+  };
+};
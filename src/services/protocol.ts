@@ -0,0 +1,117 @@
+import type { InboundMessage, InboundMessageType, OutboundAction } from '../types/socket';
+
+export class ProtocolError extends Error {
+  readonly raw: unknown;
+
+  constructor(message: string, raw: unknown) {
+    super(message);
+    this.name = 'ProtocolError';
+    this.raw = raw;
+  }
+}
+
+export type SocketRequestErrorCode = 'timeout' | 'disconnected' | 'rejected';
+
+export class SocketRequestError extends Error {
+  readonly code: SocketRequestErrorCode;
+  readonly action: OutboundAction;
+
+  constructor(code: SocketRequestErrorCode, action: OutboundAction, message: string) {
+    super(message);
+    this.name = 'SocketRequestError';
+    this.code = code;
+    this.action = action;
+  }
+}
+
+// Same code a browser reports for a connection dropped without a close frame. Transports
+// that aren't a plain WebSocket close with it when they lose their connection.
+export const ABNORMAL_CLOSURE = 1006;
+
+type Fields = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptional = (value: unknown, type: 'string' | 'number') =>
+  value === undefined || value === null || typeof value === type;
+
+// One validator per inbound type; each returns a description of the first problem found
+const validators: Record<InboundMessageType, (msg: Fields) => string | null> = {
+  'stream.frame': (msg) => {
+    if (typeof msg.frame !== 'string' || msg.frame.length === 0) return '`frame` must be a non-empty base64 string';
+    if (!isOptional(msg.session_id, 'string')) return '`session_id` must be a string';
+    if (!isOptional(msg.timestamp, 'number')) return '`timestamp` must be a number';
+    if (!isOptional(msg.sequence, 'number')) return '`sequence` must be a number';
+    return null;
+  },
+  'stream.starting': (msg) => {
+    if (!isOptional(msg.session_id, 'string')) return '`session_id` must be a string';
+    return null;
+  },
+  'stream.started': (msg) => {
+    if (!isOptional(msg.session_id, 'string')) return '`session_id` must be a string';
+    for (const key of ['width', 'height', 'fps']) {
+      if (!isOptional(msg[key], 'number')) return `\`${key}\` must be a number`;
+    }
+    if (!isOptional(msg.stream_url, 'string')) return '`stream_url` must be a string';
+    return null;
+  },
+  'stream.stopped': (msg) => {
+    if (!isOptional(msg.session_id, 'string')) return '`session_id` must be a string';
+    return null;
+  },
+  'stream.error': (msg) => {
+    if (!isOptional(msg.session_id, 'string')) return '`session_id` must be a string';
+    if (typeof msg.message !== 'string') return '`message` must be a string';
+    return null;
+  },
+  'stream.options': (msg) => {
+    if (!isOptional(msg.session_id, 'string')) return '`session_id` must be a string';
+    for (const key of ['fps', 'max_width', 'jpeg_quality']) {
+      if (!isOptional(msg[key], 'number')) return `\`${key}\` must be a number`;
+    }
+    return null;
+  },
+  'stream.warning': (msg) => {
+    if (!isOptional(msg.session_id, 'string')) return '`session_id` must be a string';
+    if (typeof msg.message !== 'string') return '`message` must be a string';
+    return null;
+  },
+  available_streams: (msg) => {
+    if (!isRecord(msg.streams)) return '`streams` must be an object';
+    if (Object.values(msg.streams).some((url) => typeof url !== 'string')) return 'every stream URL must be a string';
+    return null;
+  },
+  pong: () => null,
+};
+
+const isInboundType = (type: unknown): type is InboundMessageType =>
+  typeof type === 'string' && Object.prototype.hasOwnProperty.call(validators, type);
+
+/**
+ * Validates a decoded JSON message against the inbound protocol.
+ * Throws a ProtocolError describing the first problem found.
+ */
+export function parseInboundMessage(data: unknown): InboundMessage {
+  if (!isRecord(data)) {
+    throw new ProtocolError('Message is not a JSON object', data);
+  }
+  if (!isInboundType(data.type)) {
+    throw new ProtocolError(`Unknown message type: ${String(data.type)}`, data);
+  }
+
+  const problem = isOptional(data.request_id, 'string')
+    ? validators[data.type](data)
+    : '`request_id` must be a string';
+  if (problem) {
+    throw new ProtocolError(`Malformed ${data.type} message: ${problem}`, data);
+  }
+
+  // Normalize null optionals sent by the backend so consumers only deal with undefined
+  const message: Fields = {};
+  for (const [key, value] of Object.entries(data)) {
+    if (value !== null) message[key] = value;
+  }
+  return message as unknown as InboundMessage;
+}
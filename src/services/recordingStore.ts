@@ -0,0 +1,13 @@
+import type { Recording, StoredRecording } from '../types/recording';
+import { addRecord, deleteRecord, listRecords } from './browserDatabase';
+
+// Recorded clips, kept in the browser's IndexedDB
+export const saveRecording = (recording: Recording): Promise<StoredRecording> => addRecord('recordings', recording);
+
+// Newest first
+export async function listRecordings(streamKey: string): Promise<StoredRecording[]> {
+  const found = await listRecords<StoredRecording>('recordings', streamKey);
+  return found.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export const deleteRecording = (id: number): Promise<void> => deleteRecord('recordings', id);
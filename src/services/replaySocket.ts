@@ -0,0 +1,192 @@
+import type { CaptureEntry, OutboundMessage, ReplayOptions, SocketCapture, SocketTransport } from '../types/socket';
+import { base64ToBytes, decodeBinaryFrame, encodeBinaryFrame } from '../utils/frameCodec';
+
+const CONNECT_DELAY_MS = 100;
+
+// A recorded action whose ids can be handed to a live request of the same kind
+interface RecordedAction {
+  action: string;
+  rtspUrl?: string;
+  sessionId?: string;
+  requestId?: string;
+  claimed: boolean;
+}
+
+const recordedActions = (entries: CaptureEntry[]): RecordedAction[] =>
+  entries.flatMap((entry) => {
+    if (entry.direction !== 'out' || entry.format !== 'text') return [];
+    try {
+      const message = JSON.parse(entry.data) as Record<string, unknown>;
+      if (typeof message.action !== 'string' || message.action === 'ping') return [];
+      return [{
+        action: message.action,
+        rtspUrl: typeof message.rtsp_url === 'string' ? message.rtsp_url : undefined,
+        sessionId: typeof message.session_id === 'string' ? message.session_id : undefined,
+        requestId: typeof message.request_id === 'string' ? message.request_id : undefined,
+        claimed: false,
+      }];
+    } catch {
+      return [];
+    }
+  });
+
+/**
+ * Socket transport that plays a recorded capture back instead of talking to the backend.
+ * Live sessions take over the ids of the recorded sessions that started the same RTSP URL,
+ * so players pick up the replayed frames and replies settle the live requests.
+ */
+export class ReplaySocket implements SocketTransport {
+  readyState: number = WebSocket.CONNECTING;
+  binaryType: BinaryType = 'arraybuffer';
+  onopen: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  private readonly inbound: CaptureEntry[];
+  private readonly actions: RecordedAction[];
+  private readonly speed: number;
+  // Recorded id -> live id
+  private readonly sessionIds: Map<string, string> = new Map();
+  private readonly requestIds: Map<string, string> = new Map();
+  private startedAt = 0;
+  private position = 0;
+  private timer: number | null = null;
+
+  constructor(capture: SocketCapture, { speed = 1 }: ReplayOptions = {}) {
+    this.inbound = capture.entries.filter((entry) => entry.direction === 'in');
+    this.actions = recordedActions(capture.entries);
+    this.speed = speed > 0 ? speed : 1;
+    console.log(`Replaying ${this.inbound.length} recorded message(s) at ${this.speed}x`);
+
+    window.setTimeout(() => {
+      if (this.readyState !== WebSocket.CONNECTING) return;
+      this.readyState = WebSocket.OPEN;
+      this.startedAt = performance.now();
+      this.onopen?.(new Event('open'));
+      this.scheduleNext();
+    }, CONNECT_DELAY_MS);
+  }
+
+  send(data: string | ArrayBufferLike | Blob | ArrayBufferView): void {
+    if (this.readyState !== WebSocket.OPEN) {
+      throw new DOMException('Replay socket is not open', 'InvalidStateError');
+    }
+    if (typeof data !== 'string') return;
+
+    let message: OutboundMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return;
+    }
+
+    switch (message.action) {
+      case 'ping':
+        // Recorded pongs are skipped, the health check still needs its answers
+        this.deliver(JSON.stringify({ type: 'pong', request_id: message.request_id, timestamp: Date.now() }));
+        break;
+      case 'stop_stream':
+        for (const [recorded, live] of this.sessionIds) {
+          if (live === message.session_id) this.sessionIds.delete(recorded);
+        }
+        this.deliver(JSON.stringify({ type: 'stream.stopped', request_id: message.request_id, session_id: message.session_id }));
+        break;
+      default:
+        this.claim(message);
+    }
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState === WebSocket.CLOSING || this.readyState === WebSocket.CLOSED) return;
+    this.readyState = WebSocket.CLOSED;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    window.setTimeout(() => {
+      this.onclose?.(new CloseEvent('close', { code, reason, wasClean: true }));
+    }, 0);
+  }
+
+  // Hands the ids of the first matching recorded action to the live one
+  private claim(message: OutboundMessage): void {
+    const rtspUrl = message.action === 'start_stream' ? message.rtsp_url : undefined;
+    const liveSessionId = 'session_id' in message ? message.session_id : undefined;
+    const recorded = this.actions.find((action) => {
+      if (action.claimed || action.action !== message.action) return false;
+      if (rtspUrl !== undefined) return action.rtspUrl === rtspUrl;
+      // Other session actions follow the session the start mapped
+      return !action.sessionId || this.sessionIds.get(action.sessionId) === liveSessionId;
+    });
+    if (!recorded) {
+      console.warn(`Nothing recorded answers ${message.action}, it stays unanswered`);
+      return;
+    }
+
+    recorded.claimed = true;
+    if (recorded.sessionId && liveSessionId) this.sessionIds.set(recorded.sessionId, liveSessionId);
+    if (recorded.requestId && message.request_id) this.requestIds.set(recorded.requestId, message.request_id);
+  }
+
+  private scheduleNext(): void {
+    const entry = this.inbound[this.position];
+    if (!entry) {
+      console.log('Replay finished');
+      return;
+    }
+    const due = this.startedAt + entry.t / this.speed;
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      if (this.readyState !== WebSocket.OPEN) return;
+      this.position += 1;
+      this.play(entry);
+      this.scheduleNext();
+    }, Math.max(0, due - performance.now()));
+  }
+
+  private play(entry: CaptureEntry): void {
+    if (entry.format === 'binary') {
+      this.playFrame(base64ToBytes(entry.data));
+      return;
+    }
+
+    let message: Record<string, unknown>;
+    try {
+      message = JSON.parse(entry.data);
+    } catch {
+      // Malformed messages are part of what was recorded, pass them on as they were
+      this.deliver(entry.data);
+      return;
+    }
+    if (message.type === 'pong') return;
+
+    if (typeof message.session_id === 'string') {
+      message.session_id = this.sessionIds.get(message.session_id) ?? message.session_id;
+    }
+    if (typeof message.request_id === 'string') {
+      // Replies to recorded requests nobody repeated must not settle an unrelated one
+      const requestId = this.requestIds.get(message.request_id);
+      if (requestId) {
+        message.request_id = requestId;
+      } else {
+        delete message.request_id;
+      }
+    }
+    this.deliver(JSON.stringify(message));
+  }
+
+  private playFrame(bytes: Uint8Array): void {
+    const frame = decodeBinaryFrame(bytes.buffer as ArrayBuffer);
+    const sessionId = frame?.sessionId && this.sessionIds.get(frame.sessionId);
+    if (!frame || !sessionId || typeof frame.data === 'string') {
+      this.deliver(bytes.buffer as ArrayBuffer);
+      return;
+    }
+    this.deliver(encodeBinaryFrame({ ...frame, sessionId, data: frame.data }));
+  }
+
+  private deliver(data: string | ArrayBuffer): void {
+    this.onmessage?.(new MessageEvent('message', { data }));
+  }
+}
@@ -0,0 +1,149 @@
+import type { FrameSource } from './frameBuffer';
+import type { FrameHistory } from './frameHistory';
+import { onPaint } from './paintLoop';
+import type { StreamFrame } from '../types/stream';
+
+export interface RewindState {
+  // Showing the newest frames as they arrive
+  live: boolean;
+  // Frozen on one frame of the history
+  paused: boolean;
+}
+
+// Receive times of the oldest, shown and newest frame in the history
+export interface RewindTimeline {
+  start: number;
+  current: number;
+  end: number;
+  // How far the shown frame is behind the newest one
+  behindMs: number;
+}
+
+/**
+ * Lets a player look back into a session's frame history. Stands in for the live frame
+ * buffer as the player's frame source: live it passes the newest frames through, otherwise
+ * it shows a frame from the history, frozen or played back at the original pace.
+ */
+export class RewindController implements FrameSource {
+  private readonly history: FrameHistory;
+  private readonly liveFrames: FrameSource;
+  private state: RewindState = { live: true, paused: false };
+  private readonly subscribers: Set<() => void> = new Set();
+  // Sequence number of the shown history frame while not live
+  private seq = -1;
+  // Bumped whenever the shown history frame changes
+  private shown = 0;
+  // While playing back, how far behind the original timing playback runs
+  private delayMs = 0;
+  private stopTicking: (() => void) | null = null;
+
+  constructor(history: FrameHistory, liveFrames: FrameSource) {
+    this.history = history;
+    this.liveFrames = liveFrames;
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.subscribers.add(listener);
+    return () => {
+      this.subscribers.delete(listener);
+    };
+  };
+
+  getSnapshot = (): RewindState => this.state;
+
+  // Live positions count up from 0 and history positions down from -1, so switching always repaints
+  get position(): number {
+    return this.state.live ? this.liveFrames.position : -1 - this.shown;
+  }
+
+  latest(): StreamFrame | null {
+    if (this.state.live) return this.liveFrames.latest();
+    // Frames older than the history's limits are gone; show the oldest one left
+    return this.history.get(Math.max(this.seq, this.history.startSeq));
+  }
+
+  getTimeline(): RewindTimeline | null {
+    const { startSeq, endSeq } = this.history;
+    if (endSeq < startSeq) return null;
+    const start = this.history.get(startSeq)!.receivedAt;
+    const end = this.history.get(endSeq)!.receivedAt;
+    const current = this.state.live ? end : this.latest()?.receivedAt ?? end;
+    return { start, current, end, behindMs: end - current };
+  }
+
+  pause(): void {
+    if (this.state.paused) return;
+    if (this.state.live) {
+      if (this.history.endSeq < this.history.startSeq) return;
+      this.show(this.history.endSeq);
+    }
+    this.stopPlayback();
+    this.update({ live: false, paused: true });
+  }
+
+  // Plays on from the shown frame, keeping its distance to live
+  play(): void {
+    const frame = this.latest();
+    if (this.state.live || !this.state.paused || !frame) return;
+    this.delayMs = Date.now() - frame.receivedAt;
+    this.stopTicking = onPaint(this.tick);
+    this.update({ live: false, paused: false });
+  }
+
+  togglePause(): void {
+    if (this.state.paused) this.play();
+    else this.pause();
+  }
+
+  // Moves by whole frames, pausing first
+  step(frames: number): void {
+    this.pause();
+    if (this.state.live) return;
+    const { startSeq, endSeq } = this.history;
+    this.show(Math.min(endSeq, Math.max(startSeq, this.seq + frames)));
+  }
+
+  // Shows the frame received at `time`; pauses when coming from live
+  seek(time: number): void {
+    if (this.history.endSeq < this.history.startSeq) return;
+    if (this.state.live) this.pause();
+    this.show(this.history.seqAt(time));
+    const frame = this.latest();
+    if (!this.state.paused && frame) this.delayMs = Date.now() - frame.receivedAt;
+  }
+
+  goLive(): void {
+    this.stopPlayback();
+    if (!this.state.live) this.update({ live: true, paused: false });
+  }
+
+  dispose(): void {
+    this.stopPlayback();
+    this.state = { live: true, paused: false };
+  }
+
+  private tick = () => {
+    const target = this.history.seqAt(Date.now() - this.delayMs);
+    // Caught up, e.g. because the stream paused meanwhile
+    if (target >= this.history.endSeq) {
+      this.goLive();
+      return;
+    }
+    if (target !== this.seq) this.show(target);
+  };
+
+  private show(seq: number): void {
+    this.seq = seq;
+    this.shown += 1;
+  }
+
+  private stopPlayback(): void {
+    this.stopTicking?.();
+    this.stopTicking = null;
+  }
+
+  private update(state: RewindState): void {
+    this.state = state;
+    this.subscribers.forEach((listener) => listener());
+  }
+}
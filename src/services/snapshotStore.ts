@@ -0,0 +1,13 @@
+import type { Snapshot, StoredSnapshot } from '../types/snapshot';
+import { addRecord, deleteRecord, listRecords } from './browserDatabase';
+
+// Snapshot gallery, kept in the browser's IndexedDB
+export const saveSnapshot = (snapshot: Snapshot): Promise<StoredSnapshot> => addRecord('snapshots', snapshot);
+
+// Newest first
+export async function listSnapshots(streamKey: string): Promise<StoredSnapshot[]> {
+  const found = await listRecords<StoredSnapshot>('snapshots', streamKey);
+  return found.sort((a, b) => b.capturedAt - a.capturedAt);
+}
+
+export const deleteSnapshot = (id: number): Promise<void> => deleteRecord('snapshots', id);
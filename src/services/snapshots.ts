@@ -0,0 +1,110 @@
+import type { PrivacyMask, StreamFrame } from '../types/stream';
+import type { Snapshot, SnapshotFormat, SnapshotWatermark } from '../types/snapshot';
+import { frameToBlob } from '../utils/frameCodec';
+import { downloadBlob, fileTimestamp } from '../utils/download';
+import { PrivacyMasker, createDomScratch } from '../utils/privacyMask';
+
+const JPEG_QUALITY = 0.92;
+const MIME_TYPES: Record<SnapshotFormat, string> = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+};
+
+interface CaptureOptions {
+  streamKey: string;
+  streamName: string;
+  // Burn stream name, capture time and operator into the image
+  watermark: boolean;
+  operator?: string;
+  privacyMasks?: PrivacyMask[];
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the snapshot'))), type, quality);
+  });
+
+const drawWatermark = (ctx: CanvasRenderingContext2D, height: number, watermark: SnapshotWatermark): void => {
+  const lines = [watermark.streamName, new Date(watermark.capturedAt).toLocaleString()];
+  if (watermark.operator) lines.push(`Operator: ${watermark.operator}`);
+
+  // Readable on a phone-sized stream and still small on a 4K one
+  const fontSize = Math.max(12, Math.round(height / 40));
+  const lineHeight = Math.round(fontSize * 1.3);
+  const padding = Math.round(fontSize / 2);
+  ctx.font = `${fontSize}px sans-serif`;
+  ctx.textBaseline = 'top';
+
+  const boxWidth = Math.max(...lines.map((line) => ctx.measureText(line).width)) + padding * 2;
+  const boxHeight = lines.length * lineHeight + padding * 2;
+  const top = height - boxHeight - padding;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.fillRect(padding, top, boxWidth, boxHeight);
+  ctx.fillStyle = 'white';
+  lines.forEach((line, index) => ctx.fillText(line, padding * 2, top + padding + index * lineHeight));
+};
+
+/**
+ * Decodes a frame at its native resolution, covers the privacy masks, optionally watermarks
+ * it, and encodes it as PNG.
+ * The live canvas can't be read back, it belongs to the renderer worker.
+ */
+export async function captureSnapshot(frame: StreamFrame, options: CaptureOptions): Promise<Snapshot> {
+  const capturedAt = Date.now();
+  const bitmap = await createImageBitmap(frameToBlob(frame));
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    bitmap.close();
+    throw new Error('Canvas 2D context not available');
+  }
+  ctx.drawImage(bitmap, 0, 0);
+  const masker = new PrivacyMasker(createDomScratch);
+  masker.setMasks(options.privacyMasks ?? []);
+  masker.apply(ctx, bitmap, 0, 0, bitmap.width, bitmap.height);
+  bitmap.close();
+
+  if (options.watermark) {
+    drawWatermark(ctx, canvas.height, {
+      streamName: options.streamName,
+      capturedAt,
+      operator: options.operator?.trim() || undefined,
+    });
+  }
+
+  return {
+    streamKey: options.streamKey,
+    streamName: options.streamName,
+    capturedAt,
+    width: canvas.width,
+    height: canvas.height,
+    watermarked: options.watermark,
+    blob: await canvasToBlob(canvas, MIME_TYPES.png),
+  };
+}
+
+/**
+ * The snapshot as a file of the given format
+ */
+export async function encodeSnapshot(snapshot: Snapshot, format: SnapshotFormat): Promise<Blob> {
+  if (format === 'png') return snapshot.blob;
+
+  const bitmap = await createImageBitmap(snapshot.blob);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  canvas.getContext('2d')?.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvasToBlob(canvas, MIME_TYPES[format], JPEG_QUALITY);
+}
+
+const snapshotFileName = (snapshot: Snapshot, format: SnapshotFormat): string => {
+  const name = snapshot.streamName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'snapshot';
+  return `${name}-${fileTimestamp(snapshot.capturedAt)}.${format === 'jpeg' ? 'jpg' : 'png'}`;
+};
+
+export async function downloadSnapshot(snapshot: Snapshot, format: SnapshotFormat): Promise<void> {
+  downloadBlob(await encodeSnapshot(snapshot, format), snapshotFileName(snapshot, format));
+}
@@ -0,0 +1,182 @@
+import axios from 'axios';
+import type { SocketAuthMode, SocketToken, SocketTransport } from '../types/socket';
+import { ABNORMAL_CLOSURE } from './protocol';
+
+// Close codes the backend uses when the handshake token is missing, expired or not allowed.
+// Reconnecting with the same credentials can't help, the user has to sign in again.
+export const AUTH_CLOSE_CODES: ReadonlySet<number> = new Set([4001, 4003]);
+
+export const isAuthFailure = (code: number): boolean => AUTH_CLOSE_CODES.has(code);
+
+// Subprotocol announcing that the next one carries the token; the backend echoes it back
+export const TOKEN_SUBPROTOCOL = 'skylark.token';
+
+// Fetch a new token this long before the current one expires, at most
+const MAX_REFRESH_MARGIN_MS = 30000;
+
+const refreshMargin = (token: SocketToken): number =>
+  Math.min(MAX_REFRESH_MARGIN_MS, (token.expiresAt - token.issuedAt) / 5);
+
+const isUnauthorized = (error: unknown): boolean =>
+  axios.isAxiosError(error) && (error.response?.status === 401 || error.response?.status === 403);
+
+// Backends older than socket authentication don't have the token endpoint at all
+const isMissingEndpoint = (error: unknown): boolean =>
+  axios.isAxiosError(error) && error.response?.status === 404;
+
+/**
+ * Keeps a short-lived socket token around and replaces it before it expires,
+ * so a reconnect never waits on the REST API or presents an expired token.
+ */
+export class SocketTokenProvider {
+  private readonly fetchToken: () => Promise<SocketToken>;
+  private token: SocketToken | null = null;
+  private pending: Promise<SocketToken> | null = null;
+  private refreshTimer: number | null = null;
+  private endpointMissing = false;
+
+  constructor(fetchToken: () => Promise<SocketToken>) {
+    this.fetchToken = fetchToken;
+  }
+
+  // Null when the backend has no token endpoint, the socket then connects without a token
+  async getToken(): Promise<string | null> {
+    if (this.endpointMissing) return null;
+    if (this.token && this.token.expiresAt - Date.now() > refreshMargin(this.token)) {
+      return this.token.token;
+    }
+    try {
+      const token = await this.refresh();
+      return token.token;
+    } catch (error) {
+      if (!isMissingEndpoint(error)) throw error;
+      console.warn('The backend has no socket token endpoint, connecting without a token');
+      this.endpointMissing = true;
+      return null;
+    }
+  }
+
+  // Forget the token, e.g. after the backend refused it
+  invalidate(): void {
+    this.token = null;
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  private refresh(): Promise<SocketToken> {
+    if (!this.pending) {
+      this.pending = this.fetchToken()
+        .then((token) => {
+          this.token = token;
+          this.scheduleRefresh(token);
+          return token;
+        })
+        .finally(() => {
+          this.pending = null;
+        });
+    }
+    return this.pending;
+  }
+
+  private scheduleRefresh(token: SocketToken): void {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    const delay = Math.max(0, token.expiresAt - refreshMargin(token) - Date.now());
+    this.refreshTimer = window.setTimeout(() => {
+      this.refreshTimer = null;
+      this.refresh().catch((error) => {
+        console.warn('Failed to refresh the socket token:', error);
+        if (isUnauthorized(error)) this.invalidate();
+      });
+    }, delay);
+  }
+}
+
+/**
+ * WebSocket that fetches a token before the handshake and presents it as a query
+ * parameter or subprotocol. A token request refused with 401/403 ends up as an
+ * auth-failure close, just like a token the backend rejects. A backend without the
+ * token endpoint (404) gets a plain connection.
+ */
+export class AuthenticatedSocket implements SocketTransport {
+  binaryType: BinaryType = 'blob';
+  onopen: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  private readonly tokens: SocketTokenProvider;
+  private socket: WebSocket | null = null;
+  private closed = false;
+
+  constructor(url: string, tokens: SocketTokenProvider, mode: Exclude<SocketAuthMode, 'off'>) {
+    this.tokens = tokens;
+    this.open(url, mode);
+  }
+
+  get readyState(): number {
+    if (this.socket) return this.socket.readyState;
+    return this.closed ? WebSocket.CLOSED : WebSocket.CONNECTING;
+  }
+
+  send(data: string | ArrayBufferLike | Blob | ArrayBufferView): void {
+    if (!this.socket) throw new DOMException('Socket is not open', 'InvalidStateError');
+    this.socket.send(data);
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.socket) {
+      this.socket.close(code, reason);
+    } else {
+      this.drop(code, reason);
+    }
+  }
+
+  private async open(url: string, mode: Exclude<SocketAuthMode, 'off'>): Promise<void> {
+    let token: string | null;
+    try {
+      token = await this.tokens.getToken();
+    } catch (error) {
+      console.error('Failed to get a socket token:', error);
+      if (isUnauthorized(error)) {
+        this.drop(4001, 'Not signed in');
+      } else {
+        this.onerror?.(new Event('error'));
+        this.drop(ABNORMAL_CLOSURE, 'Could not get a socket token');
+      }
+      return;
+    }
+    // Closed while the token was on its way
+    if (this.closed) return;
+
+    let socket: WebSocket;
+    if (token === null) {
+      socket = new WebSocket(url);
+    } else if (mode === 'query') {
+      const authorized = new URL(url);
+      authorized.searchParams.set('token', token);
+      socket = new WebSocket(authorized.toString());
+    } else {
+      socket = new WebSocket(url, [TOKEN_SUBPROTOCOL, token]);
+    }
+    socket.binaryType = this.binaryType;
+    socket.onopen = (event) => this.onopen?.(event);
+    socket.onerror = (event) => this.onerror?.(event);
+    socket.onmessage = (event) => this.onmessage?.(event);
+    socket.onclose = (event) => {
+      this.closed = true;
+      if (isAuthFailure(event.code)) this.tokens.invalidate();
+      this.onclose?.(event);
+    };
+    this.socket = socket;
+  }
+
+  private drop(code: number, reason: string): void {
+    if (this.closed) return;
+    this.closed = true;
+    window.setTimeout(() => {
+      this.onclose?.(new CloseEvent('close', { code, reason, wasClean: code === 1000 }));
+    }, 0);
+  }
+}
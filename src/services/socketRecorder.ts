@@ -0,0 +1,114 @@
+import type { CaptureEntry, RecordingOptions, SocketCapture } from '../types/socket';
+import { bytesToBase64 } from '../utils/frameCodec';
+
+// One frame per second per session is plenty to see what a player was shown
+const DEFAULT_FRAME_INTERVAL_MS = 1000;
+// Frames make up nearly all of a capture; past this many only messages are kept
+const MAX_RECORDED_FRAMES = 2000;
+
+/**
+ * Collects the socket traffic of one recording. Messages are kept verbatim, frames
+ * are thinned out per session so a long capture stays small enough to download.
+ */
+export class SocketRecorder {
+  private readonly startedAt = Date.now();
+  private readonly wsUrl: string;
+  private readonly frameIntervalMs: number;
+  private readonly withholdFrames: (sessionId: string) => boolean;
+  private readonly entries: CaptureEntry[] = [];
+  private readonly lastFrameAt: Map<string, number> = new Map();
+  private recordedFrames = 0;
+  private skippedFrames = 0;
+  private withheldFrames = 0;
+
+  constructor(wsUrl: string, { frameIntervalMs = DEFAULT_FRAME_INTERVAL_MS, withholdFrames = () => false }: RecordingOptions = {}) {
+    this.wsUrl = wsUrl;
+    this.frameIntervalMs = frameIntervalMs;
+    this.withholdFrames = withholdFrames;
+  }
+
+  recordOutbound(data: string): void {
+    this.push('out', 'text', data);
+  }
+
+  // `frameSessionId` is set when the message is a frame, '' for frames without a session
+  recordInbound(data: string | ArrayBuffer, frameSessionId?: string): void {
+    // A capture is a downloadable file, so pixels under privacy masks never go into one
+    if (frameSessionId !== undefined && this.withholdFrames(frameSessionId)) {
+      this.withheldFrames += 1;
+      return;
+    }
+    if (frameSessionId !== undefined && !this.keepFrame(frameSessionId)) {
+      this.skippedFrames += 1;
+      return;
+    }
+    if (typeof data === 'string') {
+      this.push('in', 'text', data);
+    } else {
+      this.push('in', 'binary', bytesToBase64(new Uint8Array(data)));
+    }
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  finish(): SocketCapture {
+    console.log(
+      `Recorded ${this.entries.length} socket message(s), skipped ${this.skippedFrames} frame(s), `
+      + `withheld ${this.withheldFrames} masked frame(s)`,
+    );
+    return {
+      version: 1,
+      startedAt: this.startedAt,
+      wsUrl: this.wsUrl,
+      frameIntervalMs: this.frameIntervalMs,
+      entries: this.entries.slice(),
+    };
+  }
+
+  private keepFrame(sessionId: string): boolean {
+    if (this.recordedFrames >= MAX_RECORDED_FRAMES) return false;
+    const now = Date.now();
+    const last = this.lastFrameAt.get(sessionId);
+    if (last !== undefined && now - last < this.frameIntervalMs) return false;
+
+    this.lastFrameAt.set(sessionId, now);
+    this.recordedFrames += 1;
+    return true;
+  }
+
+  private push(direction: CaptureEntry['direction'], format: CaptureEntry['format'], data: string): void {
+    this.entries.push({ t: Date.now() - this.startedAt, direction, format, data });
+  }
+}
+
+const isCaptureEntry = (value: unknown): value is CaptureEntry => {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return typeof entry.t === 'number'
+    && (entry.direction === 'in' || entry.direction === 'out')
+    && (entry.format === 'text' || entry.format === 'binary')
+    && typeof entry.data === 'string';
+};
+
+/**
+ * Validates a capture loaded from a file. Throws with a readable reason when it isn't one.
+ */
+export const parseCapture = (data: unknown): SocketCapture => {
+  if (typeof data !== 'object' || data === null) throw new Error('Not a socket capture');
+  const raw = data as Record<string, unknown>;
+  if (raw.version !== 1) throw new Error(`Unsupported capture version: ${String(raw.version)}`);
+  if (!Array.isArray(raw.entries)) throw new Error('Capture has no entries');
+
+  const invalid = raw.entries.findIndex((entry) => !isCaptureEntry(entry));
+  if (invalid !== -1) throw new Error(`Capture entry ${invalid} is malformed`);
+
+  return {
+    version: 1,
+    startedAt: typeof raw.startedAt === 'number' ? raw.startedAt : 0,
+    wsUrl: typeof raw.wsUrl === 'string' ? raw.wsUrl : '',
+    frameIntervalMs: typeof raw.frameIntervalMs === 'number' ? raw.frameIntervalMs : 0,
+    entries: raw.entries as CaptureEntry[],
+  };
+};
@@ -1,58 +1,142 @@
 // WebSocketService.ts
-
-export type SocketConnectionState = 'connecting' | 'open' | 'closing' | 'closed' | 'uninstantiated';
-export type SocketEventType =
-  | 'open'
-  | 'close'
-  | 'error'
-  | 'message'
-  | 'stream.frame'
-  | 'stream.error'
-  | 'stream.stopped'
-  | 'stream.started'
-  | 'stream.starting'
-  | 'stream.warning'
-  | 'available_streams';
-
-type EventListener = (data?: any) => void;
-
-const getWebSocketUrl = (): string => {
-  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-  const hostname = window.location.hostname || 'localhost';
-  const port = '8000';
-  return `${protocol}//${hostname}:${port}/ws/streams/`;
+import type { FrameTransport } from '../types/stream';
+import type {
+  ActionPayload,
+  InboundMessage,
+  OutboundAction,
+  OutboundMessage,
+  SessionMessage,
+  SessionMessageType,
+  SocketConnectionState,
+  SocketEventMap,
+  SocketEventType,
+  SocketListener,
+  ReconnectingEvent,
+  ReconnectStoppedEvent,
+  SocketResponseMap,
+  SocketTransport,
+  SocketTransportFactory,
+  RecordingOptions,
+  ReplayOptions,
+  RequestOptions,
+  SocketCapture,
+  StreamFrameMessage,
+  StreamOptions,
+  StreamOptionsMessage,
+  StreamStartedMessage,
+} from '../types/socket';
+import { decodeBinaryFrame } from '../utils/frameCodec';
+import { parseInboundMessage, ProtocolError, SocketRequestError } from './protocol';
+import { getConfig } from './config';
+import { isAuthFailure } from './socketAuth';
+import { SocketRecorder } from './socketRecorder';
+import { ReplaySocket } from './replaySocket';
+
+export type { SocketConnectionState, SocketEventType } from '../types/socket';
+
+type AnyListener = (data: unknown) => void;
+
+// Events that belong to a single stream session and are routed by `session_id`
+const SESSION_EVENTS: ReadonlySet<SocketEventType> = new Set<SessionMessageType>([
+  'stream.frame',
+  'stream.error',
+  'stream.stopped',
+  'stream.started',
+  'stream.starting',
+  'stream.warning',
+  'stream.options',
+]);
+
+// The reply type that settles a request for each action
+const RESPONSE_TYPES: { [A in OutboundAction]: SocketResponseMap[A]['type'] } = {
+  start_stream: 'stream.started',
+  stop_stream: 'stream.stopped',
+  set_stream_options: 'stream.options',
+  ping: 'pong',
+  get_available_streams: 'available_streams',
 };
 
+const DEFAULT_REQUEST_TIMEOUT_MS = 10000;
+// Messages sent while disconnected wait here; the oldest are dropped beyond this
+const MAX_QUEUED_MESSAGES = 100;
+// Opening an RTSP source on the backend can take a while
+const START_STREAM_TIMEOUT_MS = 20000;
+// A stop not confirmed by then never will be, e.g. one sent to a stream the backend hung on
+const STOP_CONFIRM_TIMEOUT_MS = 10000;
+
+// What a session asked for, so it can be re-issued after a reconnect
+interface StreamSubscription {
+  rtspUrl: string;
+  transport: FrameTransport;
+  options: StreamOptions;
+}
+
+interface PendingRequest {
+  action: OutboundAction;
+  responseType: InboundMessage['type'];
+  sessionId?: string;
+  // Whether the request went out on a socket; queued requests survive reconnects
+  sent: boolean;
+  resolve: (message: InboundMessage) => void;
+  reject: (error: SocketRequestError) => void;
+  timer: number;
+}
+
 class WebSocketService {
-  private socket: WebSocket | null = null;
-  private readonly url: string = getWebSocketUrl();
-  private readonly listeners: Map<SocketEventType, Set<EventListener>> = new Map();
+  private socket: SocketTransport | null = null;
+  private createTransport: SocketTransportFactory = (url) => new WebSocket(url);
+  // In-browser transports keep working while the network is down
+  private needsNetwork = true;
+  private readonly listeners: Map<SocketEventType, Set<AnyListener>> = new Map();
+  private readonly sessionListeners: Map<string, Map<SessionMessageType, Set<AnyListener>>> = new Map();
+  private readonly subscriptions: Map<string, StreamSubscription> = new Map();
+  // Sessions we stopped whose `stream.stopped` hasn't come back yet, oldest first, with
+  // when the stop was sent
+  private readonly pendingStops: Map<string, number> = new Map();
+  // Camera URL of every session started over this connection, including ones started by hand
+  private readonly sessionUrls: Map<string, string> = new Map();
+  private readonly outboundQueue: (OutboundMessage | string)[] = [];
+  // In insertion order, so replies without a request_id settle the oldest matching request
+  private readonly pendingRequests: Map<string, PendingRequest> = new Map();
+  private requestCounter = 0;
   private reconnectAttempts = 0;
-  private readonly maxReconnects = 10;
   private reconnectTimeout: number | null = null;
+  // The pending attempt, for the connection banner's countdown
+  private nextReconnect: ReconnectingEvent | null = null;
+  // Why reconnecting stopped, until the next connect()
+  private reconnectStopped: ReconnectStoppedEvent['reason'] | null = null;
   private state: SocketConnectionState = 'uninstantiated';
   private isManualClose = false;
+  // Set when the backend refused our credentials; only reauthenticate() connects again
+  private authRequired = false;
   private pingInterval: number | null = null;
   private lastMessageTime: number = 0;
   private healthCheckInterval: number | null = null;
+  private recorder: SocketRecorder | null = null;
+  // The transport to go back to once a replay ends
+  private liveTransport: { factory: SocketTransportFactory; needsNetwork: boolean } | null = null;
+  // Transport requested for frames; backends that predate binary frames ignore it and send JSON
+  private frameTransport: FrameTransport = getConfig().frameTransport;
 
   constructor() {
     window.addEventListener('online', this.onOnline);
     window.addEventListener('offline', this.onOffline);
     window.addEventListener('beforeunload', this.cleanup);
-    console.log('WebSocketService initialized with URL:', this.url);
     this.startHealthCheck();
   }
 
   private onOnline = () => {
+    // Coming back online doesn't overrule a user who gave up
+    if (this.authRequired || this.reconnectStopped === 'cancelled') return;
     console.log('Back online, reconnecting...');
     this.reconnectAttempts = 0;
     this.connect();
   };
 
   private onOffline = () => {
+    if (!this.needsNetwork) return;
     console.warn('Offline detected. WebSocket may not work.');
-    this.dispatch('error', { message: 'Network offline' });
+    this.dispatch('error', { kind: 'connection', message: 'Network offline' });
   };
 
   private startHealthCheck() {
@@ -71,7 +155,7 @@ class WebSocketService {
   private cleanup = () => {
     if (this.healthCheckInterval) clearInterval(this.healthCheckInterval);
     if (this.pingInterval) clearInterval(this.pingInterval);
-    if (this.reconnectTimeout) clearTimeout(this.reconnectTimeout);
+    this.clearReconnectTimer();
     
     window.removeEventListener('online', this.onOnline);
     window.removeEventListener('offline', this.onOffline);
@@ -81,41 +165,64 @@ class WebSocketService {
   };
 
   connect(): void {
-    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+    if (this.socket && (this.socket.readyState === WebSocket.OPEN || this.socket.readyState === WebSocket.CONNECTING)) {
       console.log('WebSocket already connected, skipping connection');
       return;
     }
     
-    if (!navigator.onLine) {
-      console.error('Offline, cannot connect to WebSocket');
-      this.dispatch('error', { message: 'Offline, cannot connect' });
+    if (this.authRequired) {
+      console.warn('WebSocket needs a new sign-in, not connecting');
       return;
     }
 
-    if (this.reconnectTimeout) {
-      clearTimeout(this.reconnectTimeout);
-      this.reconnectTimeout = null;
+    if (this.needsNetwork && !navigator.onLine) {
+      console.error('Offline, cannot connect to WebSocket');
+      this.dispatch('error', { kind: 'connection', message: 'Offline, cannot connect' });
+      return;
     }
 
+    this.clearReconnectTimer();
+    this.reconnectStopped = null;
+
     try {
-      console.log(`Connecting to WebSocket at ${this.url}`);
+      const { wsUrl } = getConfig();
+      console.log(`Connecting to WebSocket at ${wsUrl}`);
       this.state = 'connecting';
-      this.socket = new WebSocket(this.url);
+      this.isManualClose = false;
+      const socket = this.createTransport(wsUrl);
+      socket.binaryType = 'arraybuffer';
+      this.socket = socket;
 
-      this.socket.onopen = () => {
+      socket.onopen = () => {
+        if (this.socket !== socket) return;
         console.log('WebSocket connection established successfully');
         this.state = 'open';
         this.reconnectAttempts = 0;
         this.lastMessageTime = Date.now();
-        this.dispatch('open');
+        this.flushQueue();
+        this.dispatch('open', undefined);
         this.startPing();
       };
 
-      this.socket.onclose = (event) => {
+      socket.onclose = (event) => {
+        // A socket replaced by reconnect() must not tear down its successor
+        if (this.socket !== socket) return;
         this.state = 'closed';
         console.log(`WebSocket closed with code: ${event.code}, reason: ${event.reason || 'unknown'}`);
-        this.dispatch('close', event);
         this.stopPing();
+        this.rejectUnansweredRequests();
+        // The backend forgets its sessions with the connection, no stop will be confirmed
+        this.pendingStops.clear();
+        this.dispatch('close', event);
+
+        if (isAuthFailure(event.code)) {
+          // Retrying with the same session would only be refused again
+          console.warn('WebSocket authentication failed, waiting for the user to sign in again');
+          this.authRequired = true;
+          this.dispatch('auth.required', { code: event.code, reason: event.reason });
+          this.dispatch('error', { kind: 'auth', message: 'Sign in again to watch streams' });
+          return;
+        }
         
         if (!this.isManualClose) {
           console.log(`WebSocket closed unexpectedly, scheduling reconnect...`);
@@ -123,36 +230,82 @@ class WebSocketService {
         }
       };
 
-      this.socket.onerror = (event) => {
+      socket.onerror = (event) => {
+        if (this.socket !== socket) return;
         console.error('WebSocket error:', event);
-        this.dispatch('error', { message: 'WebSocket connection error' });
+        this.dispatch('error', { kind: 'connection', message: 'WebSocket connection error' });
       };
 
-      this.socket.onmessage = (event) => {
+      socket.onmessage = (event) => {
+        if (this.socket !== socket) return;
         this.lastMessageTime = Date.now();
+
+        if (event.data instanceof ArrayBuffer) {
+          this.handleBinaryMessage(event.data);
+          return;
+        }
+
+        let message: InboundMessage;
         try {
-          const data = JSON.parse(event.data);
-          
-          // Check for ping/pong messages
-          if (data.type === 'pong') {
-            console.debug('Received pong from server');
-            return;  // Don't propagate pings/pongs to listeners
-          }
-          
-          this.dispatch('message', data);
-          if (data.type) this.dispatch(data.type as SocketEventType, data);
+          message = parseInboundMessage(JSON.parse(event.data));
         } catch (err) {
-          console.error('Failed to parse WebSocket message:', err, event.data);
+          this.recorder?.recordInbound(event.data);
+          // Reject the message here rather than letting a listener trip over it
+          const reason = err instanceof ProtocolError ? err.message : 'Invalid JSON';
+          console.error('Rejected WebSocket message:', reason, event.data);
+          this.dispatch('error', { kind: 'protocol', message: reason, raw: event.data });
+          return;
+        }
+
+        this.recorder?.recordInbound(event.data, message.type === 'stream.frame' ? message.session_id ?? '' : undefined);
+        this.settleRequests(message);
+
+        // Pongs only keep the connection alive, don't propagate them as messages
+        if (message.type === 'pong') {
+          console.debug('Received pong from server');
+          this.dispatch('pong', message);
+          return;
         }
+
+        this.dispatchInbound(message);
       };
     } catch (error) {
       console.error('Failed to create WebSocket connection:', error);
       this.state = 'closed';
-      this.dispatch('error', { message: 'Failed to connect' });
+      this.dispatch('error', { kind: 'connection', message: 'Failed to connect' });
       this.scheduleReconnect();
     }
   }
 
+  private handleBinaryMessage(buffer: ArrayBuffer): void {
+    const frame = decodeBinaryFrame(buffer);
+    this.recorder?.recordInbound(buffer, frame?.sessionId ?? '');
+    if (!frame) {
+      const reason = `Malformed binary frame (${buffer.byteLength} bytes)`;
+      console.error('Rejected WebSocket message:', reason);
+      this.dispatch('error', { kind: 'protocol', message: reason });
+      return;
+    }
+
+    const message: StreamFrameMessage = {
+      type: 'stream.frame',
+      session_id: frame.sessionId,
+      timestamp: frame.timestamp,
+      sequence: frame.sequence,
+      frame: frame.data,
+    };
+    this.settleRequests(message);
+    this.dispatchInbound(message);
+  }
+
+  private dispatchInbound(message: InboundMessage): void {
+    this.dispatch('message', message);
+    this.dispatch(message.type, message);
+    if (SESSION_EVENTS.has(message.type)) {
+      this.dispatchSession(message as SessionMessage);
+    }
+  }
+
   disconnect(): void {
     this.stopPing();
     
@@ -160,7 +313,7 @@ class WebSocketService {
       this.isManualClose = true;
       this.state = 'closing';
       this.socket.close();
-      if (this.reconnectTimeout) clearTimeout(this.reconnectTimeout);
+      this.clearReconnectTimer();
     }
   }
 
@@ -179,7 +332,8 @@ class WebSocketService {
     }
     
     this.stopPing();
-    if (this.reconnectTimeout) clearTimeout(this.reconnectTimeout);
+    this.rejectUnansweredRequests();
+    this.clearReconnectTimer();
     
     // Reset reconnect attempts to ensure we retry with minimum delay
     this.reconnectAttempts = 0;
@@ -189,6 +343,17 @@ class WebSocketService {
     setTimeout(() => this.connect(), 100);
   }
 
+  // Connect again after the user signed in, with a freshly issued token
+  reauthenticate(): void {
+    this.authRequired = false;
+    this.reconnectAttempts = 0;
+    this.connect();
+  }
+
+  isAuthRequired(): boolean {
+    return this.authRequired;
+  }
+
   private startPing(): void {
     this.stopPing();
     this.pingInterval = window.setInterval(() => {
@@ -206,25 +371,85 @@ class WebSocketService {
   }
 
   private scheduleReconnect(): void {
+    const policy = getConfig().reconnect;
     this.reconnectAttempts++;
-    
-    // Exponential backoff with max of 30 seconds
-    const delay = Math.min(3000 * Math.pow(1.5, this.reconnectAttempts - 1), 30000);
-    
-    console.log(`Scheduling reconnect attempt ${this.reconnectAttempts}/${this.maxReconnects} in ${delay}ms`);
-    
-    if (this.reconnectAttempts <= this.maxReconnects) {
-      this.reconnectTimeout = window.setTimeout(() => this.connect(), delay);
-    } else {
-      console.error(`Maximum reconnection attempts (${this.maxReconnects}) reached.`);
-      this.dispatch('error', { message: 'Failed to reconnect after multiple attempts' });
+
+    if (policy.maxAttempts !== 'forever' && this.reconnectAttempts > policy.maxAttempts) {
+      console.error(`Maximum reconnection attempts (${policy.maxAttempts}) reached.`);
+      this.reconnectStopped = 'exhausted';
+      this.dispatch('error', { kind: 'connection', message: 'Failed to reconnect after multiple attempts' });
+      this.dispatch('reconnect.stopped', { attempts: this.reconnectAttempts - 1, reason: 'exhausted' });
+      return;
+    }
+
+    // Exponential backoff, spread out so many clients don't come back at the same moment
+    const backoff = Math.min(policy.baseDelayMs * Math.pow(policy.factor, this.reconnectAttempts - 1), policy.maxDelayMs);
+    const delay = Math.round(backoff * (1 + policy.jitter * (Math.random() * 2 - 1)));
+    const limit = policy.maxAttempts === 'forever' ? '∞' : policy.maxAttempts;
+    console.log(`Scheduling reconnect attempt ${this.reconnectAttempts}/${limit} in ${delay}ms`);
+
+    this.nextReconnect = {
+      attempt: this.reconnectAttempts,
+      maxAttempts: policy.maxAttempts,
+      nextAttemptAt: Date.now() + delay,
+    };
+    this.reconnectTimeout = window.setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.nextReconnect = null;
+      this.connect();
+    }, delay);
+    this.dispatch('reconnecting', this.nextReconnect);
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
     }
+    this.nextReconnect = null;
+  }
+
+  // Skip the rest of the countdown; a spent or cancelled policy starts over
+  retryNow(): void {
+    if (!this.reconnectTimeout) this.reconnectAttempts = 0;
+    this.connect();
+  }
+
+  // Stop reconnecting until something connects explicitly again
+  cancelReconnect(): void {
+    if (!this.reconnectTimeout) return;
+    console.log('Reconnecting cancelled');
+    this.clearReconnectTimer();
+    this.reconnectStopped = 'cancelled';
+    this.dispatch('reconnect.stopped', { attempts: this.reconnectAttempts, reason: 'cancelled' });
+  }
+
+  getNextReconnect(): ReconnectingEvent | null {
+    return this.nextReconnect;
+  }
+
+  isReconnectStopped(): boolean {
+    return this.reconnectStopped !== null;
   }
 
-  send(msg: string | object): boolean {
-    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) return false;
+  /**
+   * Sends a message, or queues it until the socket opens. Returns false only when the
+   * message was dropped.
+   */
+  send(msg: OutboundMessage | string): boolean {
+    this.trackSessionUrl(msg);
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      return this.enqueue(msg);
+    }
     try {
-      this.socket.send(typeof msg === 'string' ? msg : JSON.stringify(msg));
+      const data = typeof msg === 'string' ? msg : JSON.stringify(msg);
+      this.socket.send(data);
+      this.recorder?.recordOutbound(data);
+      this.dispatch('sent', msg);
+      if (typeof msg !== 'string' && msg.request_id) {
+        const pending = this.pendingRequests.get(msg.request_id);
+        if (pending) pending.sent = true;
+      }
       return true;
     } catch (e) {
       console.error('Send failed:', e);
@@ -232,29 +457,371 @@ class WebSocketService {
     }
   }
 
-  startStream(rtspUrl: string): boolean {
-    console.log('Requesting to start stream:', rtspUrl);
-    return this.send({ 
-      action: 'start_stream', 
-      rtsp_url: rtspUrl 
+  private trackSessionUrl(msg: OutboundMessage | string): void {
+    let fields: unknown = msg;
+    if (typeof msg === 'string') {
+      try {
+        fields = JSON.parse(msg);
+      } catch {
+        return;
+      }
+    }
+    if (typeof fields !== 'object' || fields === null) return;
+    const { action, session_id: sessionId, rtsp_url: rtspUrl } = fields as Record<string, unknown>;
+    if (typeof sessionId !== 'string') return;
+    if (action === 'start_stream' && typeof rtspUrl === 'string') this.sessionUrls.set(sessionId, rtspUrl);
+    if (action === 'stop_stream') this.sessionUrls.delete(sessionId);
+  }
+
+  // The camera URL a session was started with; '' asks for the session of untagged frames
+  getSessionUrl(sessionId: string): string | undefined {
+    if (!sessionId && this.sessionUrls.size === 1) return this.sessionUrls.values().next().value;
+    return this.sessionUrls.get(sessionId);
+  }
+
+  private enqueue(msg: OutboundMessage | string): boolean {
+    if (typeof msg !== 'string') {
+      // A ping only makes sense on a live connection
+      if (msg.action === 'ping') return false;
+
+      // The next connection starts with no streams, so a queued stop only needs
+      // to cancel the start it would have undone
+      if (msg.action === 'stop_stream') {
+        this.removeQueuedStarts(msg.session_id);
+        return true;
+      }
+    }
+
+    if (this.outboundQueue.length >= MAX_QUEUED_MESSAGES) {
+      const dropped = this.outboundQueue.shift()!;
+      console.warn('Outbound queue full, dropping oldest message:', dropped);
+      if (typeof dropped !== 'string' && dropped.request_id) {
+        this.settle(dropped.request_id, new SocketRequestError('disconnected', dropped.action, 'Dropped from the outbound queue'));
+      }
+    }
+    this.outboundQueue.push(msg);
+    return true;
+  }
+
+  private removeQueuedStarts(sessionId: string): void {
+    for (let i = this.outboundQueue.length - 1; i >= 0; i--) {
+      const queued = this.outboundQueue[i];
+      if (typeof queued !== 'string' && queued.action === 'start_stream' && queued.session_id === sessionId) {
+        this.outboundQueue.splice(i, 1);
+      }
+    }
+  }
+
+  private flushQueue(): void {
+    // Sessions whose start is still queued will be started by the flush itself
+    const queuedStarts = new Set<string>();
+    for (const queued of this.outboundQueue) {
+      if (typeof queued !== 'string' && queued.action === 'start_stream') queuedStarts.add(queued.session_id);
+    }
+
+    const queue = this.outboundQueue.splice(0);
+    if (queue.length > 0) console.log(`Flushing ${queue.length} queued WebSocket message(s)`);
+    queue.forEach((msg) => this.send(msg));
+
+    this.restoreSessions(queuedStarts);
+  }
+
+  // Re-issue every stream subscription on a fresh connection
+  private restoreSessions(skip: Set<string>): void {
+    for (const [sessionId, subscription] of this.subscriptions) {
+      if (skip.has(sessionId)) continue;
+      console.log(`Restoring stream session ${sessionId}:`, subscription.rtspUrl);
+
+      // Reuse the id of a start request still waiting for its reply, so its promise settles
+      const pendingStart = this.findPendingStart(sessionId);
+      if (pendingStart) {
+        this.send({
+          ...subscription.options,
+          action: 'start_stream',
+          session_id: sessionId,
+          rtsp_url: subscription.rtspUrl,
+          transport: subscription.transport,
+          request_id: pendingStart,
+        });
+        continue;
+      }
+
+      this.request('start_stream', {
+        ...subscription.options,
+        session_id: sessionId,
+        rtsp_url: subscription.rtspUrl,
+        transport: subscription.transport,
+      }, { timeoutMs: START_STREAM_TIMEOUT_MS }).catch((err: SocketRequestError) => {
+        console.warn(`Failed to restore stream session ${sessionId}:`, err.message);
+        // The server reports its own errors; a timeout would otherwise go unnoticed
+        if (err.code === 'timeout' && this.subscriptions.has(sessionId)) {
+          this.dispatchInbound({ type: 'stream.error', session_id: sessionId, message: `Failed to restore stream: ${err.message}` });
+        }
+      });
+    }
+  }
+
+  private findPendingStart(sessionId: string): string | undefined {
+    for (const [requestId, pending] of this.pendingRequests) {
+      if (pending.action === 'start_stream' && pending.sessionId === sessionId) return requestId;
+    }
+    return undefined;
+  }
+
+  /**
+   * Sends an action tagged with a fresh `request_id` and resolves with the matching reply.
+   * Rejects with a SocketRequestError when the server reports an error, the connection
+   * drops or no reply arrives within the timeout.
+   */
+  request<A extends OutboundAction>(
+    action: A,
+    payload: ActionPayload<A>,
+    { timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS }: RequestOptions = {}
+  ): Promise<SocketResponseMap[A]> {
+    const requestId = `req-${Date.now().toString(36)}-${++this.requestCounter}`;
+    const message = { ...payload, action, request_id: requestId } as unknown as OutboundMessage;
+    const sessionId = 'session_id' in payload ? (payload.session_id as string) : undefined;
+
+    return new Promise<SocketResponseMap[A]>((resolve, reject) => {
+      const timer = window.setTimeout(() => {
+        this.pendingRequests.delete(requestId);
+        reject(new SocketRequestError('timeout', action, `No reply to ${action} within ${timeoutMs / 1000}s`));
+      }, timeoutMs);
+
+      this.pendingRequests.set(requestId, {
+        action,
+        responseType: RESPONSE_TYPES[action],
+        sessionId,
+        sent: false,
+        resolve: resolve as (message: InboundMessage) => void,
+        reject,
+        timer,
+      });
+
+      if (!this.send(message)) {
+        this.settle(requestId, new SocketRequestError('disconnected', action, 'WebSocket is not connected'));
+      }
     });
   }
 
-  stopStream(): boolean {
-    return this.send({ action: 'stop_stream' });
+  private settle(requestId: string, result: InboundMessage | SocketRequestError): void {
+    const pending = this.pendingRequests.get(requestId);
+    if (!pending) return;
+
+    this.pendingRequests.delete(requestId);
+    clearTimeout(pending.timer);
+    if (result instanceof SocketRequestError) {
+      pending.reject(result);
+    } else {
+      pending.resolve(result);
+    }
+  }
+
+  private settleRequests(message: InboundMessage): void {
+    if (this.pendingRequests.size === 0) return;
+
+    if (message.request_id) {
+      const pending = this.pendingRequests.get(message.request_id);
+      if (!pending) return;
+
+      if (message.type === 'stream.error') {
+        this.settle(message.request_id, new SocketRequestError('rejected', pending.action, message.message));
+      } else if (message.type === pending.responseType) {
+        this.settle(message.request_id, message);
+      }
+      // Anything else (e.g. stream.starting) is progress, keep waiting
+      return;
+    }
+
+    // Older backends don't echo request ids: match on reply type and session instead
+    const sessionId = 'session_id' in message ? message.session_id : undefined;
+    for (const [requestId, pending] of this.pendingRequests) {
+      if (sessionId && pending.sessionId && pending.sessionId !== sessionId) continue;
+
+      if (message.type === 'stream.error' && pending.action === 'start_stream') {
+        this.settle(requestId, new SocketRequestError('rejected', pending.action, message.message));
+        return;
+      }
+      if (message.type === pending.responseType) {
+        this.settle(requestId, message);
+        return;
+      }
+      // A backend that goes straight to frames has evidently started the stream
+      if (message.type === 'stream.frame' && pending.action === 'start_stream') {
+        const started: StreamStartedMessage = { type: 'stream.started', session_id: sessionId };
+        this.settle(requestId, started);
+        return;
+      }
+    }
+  }
+
+  // Replies to requests sent on a dropped socket will never arrive. Starts of subscribed
+  // sessions are kept, restoreSessions() re-sends them under the same id.
+  private rejectUnansweredRequests(): void {
+    for (const [requestId, pending] of this.pendingRequests) {
+      if (!pending.sent) continue;
+      if (pending.action === 'start_stream' && pending.sessionId && this.subscriptions.has(pending.sessionId)) {
+        pending.sent = false;
+        continue;
+      }
+      this.settle(requestId, new SocketRequestError('disconnected', pending.action, 'Connection closed before the server replied'));
+    }
+  }
+
+  startStream(sessionId: string, rtspUrl: string, options: StreamOptions = {}): Promise<StreamStartedMessage> {
+    console.log(`Requesting to start stream for session ${sessionId}:`, rtspUrl);
+    const subscription: StreamSubscription = { rtspUrl, transport: this.frameTransport, options };
+    this.subscriptions.set(sessionId, subscription);
+    return this.request('start_stream', {
+      ...options,
+      session_id: sessionId,
+      rtsp_url: subscription.rtspUrl,
+      transport: subscription.transport,
+    }, { timeoutMs: START_STREAM_TIMEOUT_MS });
+  }
+
+  /**
+   * Changes frame rate, size or quality of a running stream. The options are remembered,
+   * so a restored session comes back with them.
+   */
+  setStreamOptions(sessionId: string, options: StreamOptions, requestOptions?: RequestOptions): Promise<StreamOptionsMessage> {
+    const subscription = this.subscriptions.get(sessionId);
+    if (subscription) subscription.options = { ...subscription.options, ...options };
+    return this.request('set_stream_options', { ...options, session_id: sessionId }, requestOptions);
+  }
+
+  stopStream(sessionId: string): boolean {
+    this.subscriptions.delete(sessionId);
+    this.pendingStops.set(sessionId, Date.now());
+    return this.send({ action: 'stop_stream', session_id: sessionId });
   }
 
-  on(type: SocketEventType, cb: EventListener): void {
+  on<K extends SocketEventType>(type: K, cb: SocketListener<K>): void {
     if (!this.listeners.has(type)) this.listeners.set(type, new Set());
-    this.listeners.get(type)!.add(cb);
+    this.listeners.get(type)!.add(cb as AnyListener);
+  }
+
+  off<K extends SocketEventType>(type: K, cb: SocketListener<K>): void {
+    this.listeners.get(type)?.delete(cb as AnyListener);
+  }
+
+  // Listen for events of a single stream session only
+  onSession<K extends SessionMessageType>(sessionId: string, type: K, cb: SocketListener<K>): void {
+    let sessionMap = this.sessionListeners.get(sessionId);
+    if (!sessionMap) {
+      sessionMap = new Map();
+      this.sessionListeners.set(sessionId, sessionMap);
+    }
+    if (!sessionMap.has(type)) sessionMap.set(type, new Set());
+    sessionMap.get(type)!.add(cb as AnyListener);
+  }
+
+  offSession<K extends SessionMessageType>(sessionId: string, type: K, cb: SocketListener<K>): void {
+    const sessionMap = this.sessionListeners.get(sessionId);
+    if (!sessionMap) return;
+    sessionMap.get(type)?.delete(cb as AnyListener);
+    if (sessionMap.get(type)?.size === 0) sessionMap.delete(type);
+    if (sessionMap.size === 0) this.sessionListeners.delete(sessionId);
+  }
+
+  private dispatch<K extends SocketEventType>(type: K, payload: SocketEventMap[K]): void {
+    this.listeners.get(type)?.forEach((cb) => this.invoke(cb, payload));
+  }
+
+  // A throwing listener must not stop the others from receiving the event
+  private invoke(cb: AnyListener, payload: unknown): void {
+    try {
+      cb(payload);
+    } catch (err) {
+      console.error('WebSocket listener failed:', err);
+    }
+  }
+
+  private dispatchSession(message: SessionMessage): void {
+    const { type } = message;
+    let sessionId: string | undefined = message.session_id;
+    if (type === 'stream.stopped') {
+      // Otherwise an unanswered stop would swallow the real end of the session after it
+      this.forgetUnconfirmedStops();
+      // An untagged one confirms the oldest stop still waiting, not the session that happens
+      // to be left, which is usually the one just restarted under a new id
+      if (!sessionId && this.pendingStops.size > 0) sessionId = this.pendingStops.keys().next().value;
+      if (sessionId) this.pendingStops.delete(sessionId);
+    }
+    // Backends that predate multiplexing send untagged messages; they can only
+    // belong to a session if exactly one is running.
+    if (!sessionId && this.subscriptions.size === 1) {
+      sessionId = this.subscriptions.keys().next().value;
+    }
+    if (!sessionId) return;
+
+    if (type === 'stream.stopped') this.subscriptions.delete(sessionId);
+    this.sessionListeners.get(sessionId)?.get(type)?.forEach((cb) => this.invoke(cb, message));
+  }
+
+  private forgetUnconfirmedStops(): void {
+    const cutoff = Date.now() - STOP_CONFIRM_TIMEOUT_MS;
+    for (const [sessionId, stoppedAt] of this.pendingStops) {
+      if (stoppedAt >= cutoff) break;
+      this.pendingStops.delete(sessionId);
+    }
+  }
+
+  setFrameTransport(transport: FrameTransport): void {
+    this.frameTransport = transport;
+  }
+
+  getFrameTransport(): FrameTransport {
+    return this.frameTransport;
+  }
+
+  // Swap what the service connects through, e.g. the demo backend. Applies from the next connect().
+  setTransportFactory(factory: SocketTransportFactory, { needsNetwork = true }: { needsNetwork?: boolean } = {}): void {
+    this.createTransport = factory;
+    this.needsNetwork = needsNetwork;
+  }
+
+  // Record every message from now on, frames thinned out per `options`
+  startRecording(options?: RecordingOptions): void {
+    if (this.recorder) return;
+    console.log('Recording WebSocket traffic');
+    this.recorder = new SocketRecorder(getConfig().wsUrl, options);
   }
 
-  off(type: SocketEventType, cb: EventListener): void {
-    this.listeners.get(type)?.delete(cb);
+  stopRecording(): SocketCapture | null {
+    const capture = this.recorder?.finish() ?? null;
+    this.recorder = null;
+    return capture;
   }
 
-  private dispatch(type: SocketEventType, payload?: any): void {
-    this.listeners.get(type)?.forEach((cb) => cb(payload));
+  isRecording(): boolean {
+    return this.recorder !== null;
+  }
+
+  getRecordedCount(): number {
+    return this.recorder?.size ?? 0;
+  }
+
+  // Reconnect to a recorded capture instead of the backend, until stopReplay()
+  startReplay(capture: SocketCapture, options?: ReplayOptions): void {
+    if (!this.liveTransport) {
+      this.liveTransport = { factory: this.createTransport, needsNetwork: this.needsNetwork };
+    }
+    this.createTransport = () => new ReplaySocket(capture, options);
+    this.needsNetwork = false;
+    this.reconnect();
+  }
+
+  stopReplay(): void {
+    if (!this.liveTransport) return;
+    this.createTransport = this.liveTransport.factory;
+    this.needsNetwork = this.liveTransport.needsNetwork;
+    this.liveTransport = null;
+    this.reconnect();
+  }
+
+  isReplaying(): boolean {
+    return this.liveTransport !== null;
   }
 
   getState(): SocketConnectionState {
@@ -262,15 +829,15 @@ class WebSocketService {
   }
 
   // Add these methods to fix linter errors in WebSocketTest.tsx
-  addEventListener(type: SocketEventType, cb: EventListener): void {
+  addEventListener<K extends SocketEventType>(type: K, cb: SocketListener<K>): void {
     this.on(type, cb);
   }
 
-  removeEventListener(type: SocketEventType, cb: EventListener): void {
+  removeEventListener<K extends SocketEventType>(type: K, cb: SocketListener<K>): void {
     this.off(type, cb);
   }
 
-  sendMessage(msg: string | object): boolean {
+  sendMessage(msg: OutboundMessage | string): boolean {
     return this.send(msg);
   }
 
@@ -279,11 +846,10 @@ class WebSocketService {
     return this.socket.readyState;
   }
 
-  // Add method to get available streams from backend
-  getAvailableStreams(): boolean {
-    return this.send({
-      action: 'get_available_streams'
-    });
+  // Get the preset streams (name -> RTSP URL) offered by the backend
+  async getAvailableStreams(options?: RequestOptions): Promise<Record<string, string>> {
+    const reply = await this.request('get_available_streams', {}, options);
+    return reply.streams;
   }
 }
 
@@ -0,0 +1,568 @@
+import socketService from './socketService';
+import { getConfig } from './config';
+import { SocketRequestError } from './protocol';
+import type { StreamStatus } from '../types/stream';
+import type {
+  SocketErrorEvent,
+  StreamErrorMessage,
+  StreamFrameMessage,
+  StreamOptions,
+  StreamOptionsMessage,
+  StreamStartedMessage,
+  StreamWarningMessage,
+} from '../types/socket';
+import { createSessionId } from '../utils/streamUtils';
+import { frameByteLength, frameFromMessage } from '../utils/frameCodec';
+import { FrameRingBuffer } from './frameBuffer';
+import { FrameHistory } from './frameHistory';
+
+/**
+ * Allowed state changes. Anything else is a bug in the caller and is ignored with a warning.
+ *
+ *   idle -> connecting -> starting -> playing <-> stalled
+ *                 \           \          \
+ *                  +-----------+----------+--> error / stopped
+ */
+const TRANSITIONS: Record<StreamStatus, readonly StreamStatus[]> = {
+  idle: ['connecting', 'starting', 'stopped'],
+  connecting: ['starting', 'playing', 'error', 'stopped'],
+  starting: ['connecting', 'playing', 'error', 'stopped'],
+  playing: ['starting', 'stalled', 'error', 'stopped'],
+  stalled: ['starting', 'playing', 'error', 'stopped'],
+  // Frames can still turn up for an errored session once the socket service restores it
+  error: ['connecting', 'starting', 'playing', 'stopped'],
+  stopped: ['idle', 'connecting', 'starting'],
+};
+
+// Stream properties reported by the backend in `stream.started`
+export interface StreamInfo {
+  width?: number;
+  height?: number;
+  fps?: number;
+}
+
+export interface StreamSessionSnapshot {
+  status: StreamStatus;
+  error: string | null;
+  // Whether there is a frame to show; the frames themselves are in `StreamSession.frames`
+  hasFrame: boolean;
+  info: StreamInfo;
+  stalledSince: number | null;
+  // What the user asked for, and what the backend reports it delivers
+  requestedOptions: StreamOptions;
+  options: StreamOptions;
+  // Frame rate the session lowered the stream to because rendering fell behind
+  adaptiveFps: number | null;
+  droppedFrames: number;
+}
+
+export interface StreamSessionOptions {
+  // A stream stalls when frames stop for this many frame intervals at its expected fps
+  stallFrameMultiple?: number;
+  // Stall timeout while the frame rate is unknown, and before the first frame of a start
+  stallTimeoutMs?: number;
+  // Restart the session by itself after an error
+  autoRestart?: boolean;
+  // Ask the backend for fewer frames when rendering can't keep up
+  adaptive?: boolean;
+  // Keep the last few seconds of frames in `history` for rewinding
+  rewind?: boolean;
+}
+
+const DEFAULT_STALL_TIMEOUT_MS = 5000;
+// Short enough to catch a fast stream freezing, long enough to ride out network jitter
+const MIN_STALL_TIMEOUT_MS = 2000;
+// A stalled stream is restarted after this long, doubling with every restart that didn't help
+const STALL_RESTART_AFTER_MS = 10000;
+const CHECK_INTERVAL_MS = 500;
+const MAX_AUTO_RESTARTS = 5;
+const MAX_RESTART_DELAY_MS = 30000;
+
+// Backpressure: frames received but never painted within a window count as lag
+const ADAPT_WINDOW_MS = 2000;
+const MAX_FRAME_LAG = 5;
+const MIN_ADAPTIVE_FPS = 1;
+// Windows without lag before the frame rate is raised again
+const RECOVERY_WINDOWS = 3;
+const ADAPT_COOLDOWN_MS = 4000;
+
+// Frames kept around for the renderer, which only ever paints the newest
+const FRAME_BUFFER_SIZE = 8;
+// Frames this small at the start of a stream usually mean the camera isn't sending a picture
+const SMALL_FRAME_BYTES = 1000;
+const SMALL_FRAME_CHECKS = 5;
+
+const SIGN_IN_MESSAGE = 'Sign in again to watch streams';
+
+/**
+ * One stream played over the shared socket connection. Owns the status state machine,
+ * the latest frames and the per-stream restart logic, and notifies subscribers on change.
+ * Frames go into `frames` without notifying anyone, so React only hears about status changes.
+ */
+export class StreamSession {
+  // Replaced whenever the backend side is stopped, see `stop()`
+  private sessionId: string = createSessionId();
+  readonly frames = new FrameRingBuffer(FRAME_BUFFER_SIZE);
+  // Only filled while rewinding is enabled
+  readonly history: FrameHistory;
+  private snapshot: StreamSessionSnapshot = {
+    status: 'idle',
+    error: null,
+    hasFrame: false,
+    info: {},
+    stalledSince: null,
+    requestedOptions: {},
+    options: {},
+    adaptiveFps: null,
+    droppedFrames: 0,
+  };
+  private readonly subscribers: Set<() => void> = new Set();
+  private rtspUrl: string | undefined;
+  private attached = false;
+  // Bumped on every start/stop so a late reply to an abandoned start is ignored
+  private startToken = 0;
+  private lastFrameAt = 0;
+  private checkTimer: number | null = null;
+  private restartTimer: number | null = null;
+  private restartAttempts = 0;
+  // Stopped because the socket can't come back on its own (sign-in needed, reconnecting
+  // stopped); starts again once something reopens it
+  private resumeOnOpen = false;
+  private stallTimeoutMs: number;
+  private stallFrameMultiple: number;
+  // Whether a frame arrived since the last start, the first one may take longer
+  private hasFrameSinceStart = false;
+  private autoRestart: boolean;
+  private adaptive: boolean;
+  private rewind: boolean;
+  // The viewer is watching history, so unpainted live frames aren't lag
+  private rewinding = false;
+  private rendererAttached = false;
+  private windowStartedAt = 0;
+  private receivedInWindow = 0;
+  private renderedInWindow = 0;
+  private cleanWindows = 0;
+  private lastAdaptedAt = 0;
+
+  constructor({
+    stallTimeoutMs = DEFAULT_STALL_TIMEOUT_MS,
+    stallFrameMultiple = getConfig().stallFrameMultiple,
+    autoRestart = true,
+    adaptive = true,
+    rewind = false,
+  }: StreamSessionOptions = {}) {
+    this.stallTimeoutMs = stallTimeoutMs;
+    this.stallFrameMultiple = stallFrameMultiple;
+    this.autoRestart = autoRestart;
+    this.adaptive = adaptive;
+    this.rewind = rewind;
+    const { rewindSeconds, rewindMaxMb } = getConfig();
+    this.history = new FrameHistory(rewindSeconds * 1000, rewindMaxMb * 1024 * 1024);
+  }
+
+  get id(): string {
+    return this.sessionId;
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.subscribers.add(listener);
+    return () => {
+      this.subscribers.delete(listener);
+    };
+  };
+
+  getSnapshot = (): StreamSessionSnapshot => this.snapshot;
+
+  setAutoRestart(enabled: boolean): void {
+    this.autoRestart = enabled;
+    if (!enabled) this.clearRestartTimer();
+  }
+
+  setAdaptive(enabled: boolean): void {
+    this.adaptive = enabled;
+    if (!enabled && this.snapshot.adaptiveFps !== null) {
+      // Hand the frame rate back to what the user chose
+      this.transition(this.snapshot.status, { adaptiveFps: null });
+      this.pushOptions({ fps: this.snapshot.requestedOptions.fps ?? 0 });
+    }
+  }
+
+  setRewind(enabled: boolean): void {
+    this.rewind = enabled;
+    if (!enabled) this.history.clear();
+  }
+
+  // Set while the player shows frames from `history` instead of the newest ones
+  setRewinding(rewinding: boolean): void {
+    this.rewinding = rewinding;
+  }
+
+  /**
+   * Changes frame rate, width or JPEG quality. Applies right away to a running stream,
+   * otherwise from the next start.
+   */
+  setOptions(options: StreamOptions): void {
+    const requestedOptions = { ...this.snapshot.requestedOptions, ...options };
+    // An explicit frame rate overrides whatever backpressure settled on
+    const adaptiveFps = options.fps !== undefined ? null : this.snapshot.adaptiveFps;
+    this.transition(this.snapshot.status, { requestedOptions, adaptiveFps });
+    this.pushOptions(options);
+  }
+
+  // Called by the renderer with the number of frames it painted, which drives backpressure
+  reportRendered(count = 1): void {
+    this.rendererAttached = true;
+    this.renderedInWindow += count;
+  }
+
+  async start(rtspUrl: string | undefined = this.rtspUrl): Promise<void> {
+    if (!rtspUrl) {
+      this.transition('error', { error: 'No RTSP URL provided' });
+      return;
+    }
+
+    // History of another stream is no use for rewinding this one
+    if (rtspUrl !== this.rtspUrl) this.history.clear();
+    this.rtspUrl = rtspUrl;
+    this.attach();
+    this.clearRestartTimer();
+    const token = ++this.startToken;
+
+    if (socketService.isAuthRequired()) {
+      this.resumeOnOpen = true;
+      this.transition('error', { error: SIGN_IN_MESSAGE, stalledSince: null });
+      return;
+    }
+
+    this.hasFrameSinceStart = false;
+    // A stalled stream being restarted is still frozen since the same moment
+    const stalledSince = this.snapshot.status === 'stalled' ? this.snapshot.stalledSince : null;
+    if (socketService.getReadyState() === WebSocket.OPEN) {
+      this.transition('starting', { error: null, stalledSince });
+    } else {
+      // The start request is queued and goes out as soon as the socket opens
+      this.transition('connecting', { error: null, stalledSince });
+      socketService.connect();
+    }
+
+    try {
+      const started = await socketService.startStream(this.id, rtspUrl, this.currentOptions());
+      if (token !== this.startToken) return;
+      this.handleStarted(started);
+    } catch (err) {
+      if (token !== this.startToken) return;
+
+      const message = err instanceof SocketRequestError && err.code === 'timeout'
+        ? 'Timed out waiting for the stream to start'
+        : err instanceof Error ? err.message : 'Failed to start stream';
+      this.fail(message);
+    }
+  }
+
+  stop(): void {
+    this.startToken += 1;
+    this.clearRestartTimer();
+    this.restartAttempts = 0;
+    this.resumeOnOpen = false;
+    if (this.attached) {
+      // Always tell the service, otherwise it would restore the session on reconnect
+      socketService.stopStream(this.id);
+    }
+    this.detach();
+    // The backend confirms the stop with a `stream.stopped` some time later; under a fresh
+    // id that reply can't end whatever this session starts next
+    this.sessionId = createSessionId();
+    this.frames.clear();
+    this.transition('stopped', { hasFrame: false, stalledSince: null, adaptiveFps: null });
+  }
+
+  // Restart only this stream; the shared socket and other sessions are left alone. The new
+  // start runs under a new session id, so the reply to the stop doesn't cancel it.
+  restart(): Promise<void> {
+    console.log(`Restarting stream session ${this.id}`);
+    this.stop();
+    return this.start();
+  }
+
+  private attach(): void {
+    if (this.attached) return;
+    this.attached = true;
+
+    socketService.on('open', this.handleOpen);
+    socketService.on('error', this.handleSocketError);
+    this.listen();
+    this.resetWindow();
+    this.checkTimer = window.setInterval(this.check, CHECK_INTERVAL_MS);
+  }
+
+  private detach(): void {
+    if (!this.attached) return;
+    this.attached = false;
+
+    socketService.off('open', this.handleOpen);
+    socketService.off('error', this.handleSocketError);
+    this.unlisten();
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = null;
+    }
+  }
+
+  private listen(): void {
+    socketService.onSession(this.id, 'stream.frame', this.handleFrame);
+    socketService.onSession(this.id, 'stream.starting', this.handleStarting);
+    socketService.onSession(this.id, 'stream.started', this.handleStarted);
+    socketService.onSession(this.id, 'stream.stopped', this.handleStopped);
+    socketService.onSession(this.id, 'stream.error', this.handleStreamError);
+    socketService.onSession(this.id, 'stream.warning', this.handleWarning);
+    socketService.onSession(this.id, 'stream.options', this.handleOptions);
+  }
+
+  private unlisten(): void {
+    socketService.offSession(this.id, 'stream.frame', this.handleFrame);
+    socketService.offSession(this.id, 'stream.starting', this.handleStarting);
+    socketService.offSession(this.id, 'stream.started', this.handleStarted);
+    socketService.offSession(this.id, 'stream.stopped', this.handleStopped);
+    socketService.offSession(this.id, 'stream.error', this.handleStreamError);
+    socketService.offSession(this.id, 'stream.warning', this.handleWarning);
+    socketService.offSession(this.id, 'stream.options', this.handleOptions);
+  }
+
+  // Stops the backend side but stays attached, listening under a fresh session id; like in
+  // `stop()`, the late `stream.stopped` for the old id then has no one to end. Backends that
+  // don't tag it are covered by the socket service matching it to the pending stop.
+  private renewSessionId(): void {
+    socketService.stopStream(this.id);
+    this.unlisten();
+    this.sessionId = createSessionId();
+    this.listen();
+  }
+
+  private handleOpen = () => {
+    if (this.resumeOnOpen) {
+      this.resumeOnOpen = false;
+      if (this.snapshot.status === 'error') this.start();
+      return;
+    }
+    if (this.snapshot.status === 'connecting') this.transition('starting');
+  };
+
+  private handleSocketError = (event: SocketErrorEvent) => {
+    // A rejected message is reported but doesn't break the stream
+    if (event.kind === 'protocol') {
+      console.warn('Ignoring malformed WebSocket message:', event.message);
+      return;
+    }
+    // Restarting can't help until the user signs in again, so hold the stream until the socket reopens
+    if (event.kind === 'auth') {
+      if (!this.attached || this.snapshot.status === 'error' || this.snapshot.status === 'stopped') return;
+      this.startToken += 1;
+      this.clearRestartTimer();
+      socketService.stopStream(this.id);
+      this.resumeOnOpen = true;
+      this.transition('error', { error: SIGN_IN_MESSAGE, stalledSince: null });
+      return;
+    }
+    // Sessions that are already running get restored by the socket service
+    if (this.snapshot.status === 'connecting') this.fail(event.message);
+  };
+
+  private handleFrame = (message: StreamFrameMessage) => {
+    this.lastFrameAt = Date.now();
+    this.hasFrameSinceStart = true;
+    this.restartAttempts = 0;
+    this.receivedInWindow += 1;
+
+    const frame = frameFromMessage(message);
+    if (this.frames.position < SMALL_FRAME_CHECKS) {
+      const byteLength = frameByteLength(frame);
+      if (byteLength < SMALL_FRAME_BYTES) {
+        console.warn(`Stream session ${this.id} received a ${byteLength} byte frame, the stream may be broken`);
+      }
+    }
+    this.frames.push(frame);
+    if (this.rewind) this.history.push(frame);
+
+    // The renderer picks frames up on its own; subscribers only hear when the state changes
+    const { status, error, stalledSince, hasFrame } = this.snapshot;
+    if (status !== 'playing' || error !== null || stalledSince !== null || !hasFrame) {
+      this.transition('playing', { hasFrame: true, error: null, stalledSince: null });
+    }
+  };
+
+  private handleStarting = () => {
+    this.transition('starting', { error: null });
+  };
+
+  private handleStarted = (message: StreamStartedMessage) => {
+    const { width, height, fps } = message;
+    // Give the first frame the full stall timeout to arrive
+    this.lastFrameAt = Date.now();
+    this.transition('playing', { error: null, info: { width, height, fps } });
+  };
+
+  private handleStopped = () => {
+    this.detach();
+    this.transition('stopped', { stalledSince: null });
+  };
+
+  private handleStreamError = (message: StreamErrorMessage) => {
+    this.fail(message.message || 'Stream error');
+  };
+
+  private handleWarning = (message: StreamWarningMessage) => {
+    console.warn(`Stream warning (${this.id}):`, message.message);
+  };
+
+  private handleOptions = (message: StreamOptionsMessage) => {
+    const { fps, max_width, jpeg_quality } = message;
+    this.transition(this.snapshot.status, { options: { fps, max_width, jpeg_quality } });
+  };
+
+  // Frame watchdog, per session, so one frozen camera is caught while others keep the socket busy
+  private check = () => {
+    if (this.snapshot.status === 'stalled') {
+      this.checkStallRestart();
+      return;
+    }
+    if (this.snapshot.status !== 'playing') return;
+
+    const timeout = this.currentStallTimeout();
+    if (Date.now() - this.lastFrameAt > timeout) {
+      console.warn(`Stream session ${this.id} stalled, no frames for ${timeout / 1000}s`);
+      this.transition('stalled', { stalledSince: this.snapshot.stalledSince ?? this.lastFrameAt });
+      return;
+    }
+
+    if (Date.now() - this.windowStartedAt >= ADAPT_WINDOW_MS) {
+      this.closeWindow();
+    }
+  };
+
+  // A multiple of the frame interval the backend delivers at, once that is known
+  private currentStallTimeout(): number {
+    const fps = this.snapshot.options.fps || this.snapshot.info.fps;
+    if (!fps || !this.hasFrameSinceStart) return this.stallTimeoutMs;
+    return Math.max(MIN_STALL_TIMEOUT_MS, (this.stallFrameMultiple * 1000) / fps);
+  }
+
+  // Restart just this stream once it stayed frozen too long; the socket and other streams stay up
+  private checkStallRestart(): void {
+    if (!this.autoRestart || this.restartAttempts >= MAX_AUTO_RESTARTS) return;
+    const stalledFor = Date.now() - (this.snapshot.stalledSince ?? this.lastFrameAt);
+    const restartAfter = Math.min(STALL_RESTART_AFTER_MS * Math.pow(2, this.restartAttempts), MAX_RESTART_DELAY_MS);
+    if (stalledFor < restartAfter) return;
+
+    this.restartAttempts += 1;
+    console.warn(`Restarting stalled stream session ${this.id} (${this.restartAttempts}/${MAX_AUTO_RESTARTS})`);
+    this.renewSessionId();
+    this.start();
+  }
+
+  private resetWindow(): void {
+    this.windowStartedAt = Date.now();
+    this.receivedInWindow = 0;
+    this.renderedInWindow = 0;
+  }
+
+  // Compares what arrived with what got painted and adjusts the frame rate if needed
+  private closeWindow(): void {
+    const seconds = (Date.now() - this.windowStartedAt) / 1000;
+    const received = this.receivedInWindow;
+    const rendered = this.renderedInWindow;
+    // Without a renderer reporting back there is no way to tell frames were lost, and a
+    // viewer looking at history leaves live frames unpainted on purpose
+    const lag = this.rendererAttached && !this.rewinding ? Math.max(0, received - rendered) : 0;
+    this.resetWindow();
+
+    if (lag > 0) {
+      this.transition(this.snapshot.status, { droppedFrames: this.snapshot.droppedFrames + lag });
+    }
+    // Hidden tabs don't paint at all, that says nothing about how fast we can render
+    if (!this.adaptive || !this.rendererAttached || this.rewinding || document.hidden) return;
+    if (Date.now() - this.lastAdaptedAt < ADAPT_COOLDOWN_MS) return;
+
+    const currentFps = this.snapshot.adaptiveFps ?? (received / seconds);
+    if (lag > MAX_FRAME_LAG) {
+      this.cleanWindows = 0;
+      const target = Math.max(MIN_ADAPTIVE_FPS, Math.min(Math.floor(rendered / seconds), Math.floor(currentFps * 0.75)));
+      if (target >= currentFps) return;
+      console.warn(`Stream session ${this.id} can't keep up (${lag} frames behind), lowering to ${target} fps`);
+      this.adaptFps(target);
+      return;
+    }
+
+    if (lag === 0 && this.snapshot.adaptiveFps !== null && ++this.cleanWindows >= RECOVERY_WINDOWS) {
+      this.cleanWindows = 0;
+      const ceiling = this.snapshot.requestedOptions.fps || this.snapshot.info.fps || Infinity;
+      const next = Math.ceil(this.snapshot.adaptiveFps * 1.5);
+      if (next >= ceiling) {
+        console.log(`Stream session ${this.id} caught up, restoring the full frame rate`);
+        this.adaptFps(null);
+      } else {
+        this.adaptFps(next);
+      }
+    }
+  }
+
+  private adaptFps(fps: number | null): void {
+    this.lastAdaptedAt = Date.now();
+    this.transition(this.snapshot.status, { adaptiveFps: fps });
+    this.pushOptions({ fps: fps ?? this.snapshot.requestedOptions.fps ?? 0 });
+  }
+
+  // Requested options with the adaptive frame rate applied
+  private currentOptions(): StreamOptions {
+    const { requestedOptions, adaptiveFps } = this.snapshot;
+    return adaptiveFps === null ? requestedOptions : { ...requestedOptions, fps: adaptiveFps };
+  }
+
+  private pushOptions(options: StreamOptions): void {
+    if (!this.attached) return;
+    socketService.setStreamOptions(this.id, options, { timeoutMs: 5000 }).catch((err: Error) => {
+      console.warn(`Backend didn't apply stream options for ${this.id}:`, err.message);
+    });
+  }
+
+  private fail(message: string): void {
+    console.error(`Stream session ${this.id} failed:`, message);
+    this.transition('error', { error: message, stalledSince: null });
+    this.scheduleRestart();
+  }
+
+  private scheduleRestart(): void {
+    if (!this.autoRestart || this.restartTimer || this.restartAttempts >= MAX_AUTO_RESTARTS) return;
+    // Restarting would reconnect the socket behind the user's back
+    if (socketService.isReconnectStopped()) {
+      this.resumeOnOpen = true;
+      return;
+    }
+
+    this.restartAttempts += 1;
+    const delay = Math.min(1000 * Math.pow(2, this.restartAttempts - 1), MAX_RESTART_DELAY_MS);
+    console.log(`Auto-restart ${this.restartAttempts}/${MAX_AUTO_RESTARTS} of session ${this.id} in ${delay / 1000}s`);
+
+    this.restartTimer = window.setTimeout(() => {
+      this.restartTimer = null;
+      if (this.snapshot.status === 'error') this.start();
+    }, delay);
+  }
+
+  private clearRestartTimer(): void {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+    }
+  }
+
+  private transition(status: StreamStatus, patch: Partial<Omit<StreamSessionSnapshot, 'status'>> = {}): void {
+    const current = this.snapshot.status;
+    if (status !== current && !TRANSITIONS[current].includes(status)) {
+      console.warn(`Ignoring invalid stream session transition ${current} -> ${status}`);
+      return;
+    }
+
+    this.snapshot = { ...this.snapshot, ...patch, status };
+    this.subscribers.forEach((listener) => listener());
+  }
+}
@@ -0,0 +1,33 @@
+// Messages exchanged over BroadcastChannel when tabs share one socket connection.
+// The hub runs in the tab holding the leader lock; every tab, including that one, talks to it
+// through a TabRelaySocket identified by a per-connection client id.
+
+export const TAB_CHANNEL_NAME = 'skylark-socket';
+export const TAB_LEADER_LOCK = 'skylark-socket-leader';
+
+export interface FrameTarget {
+  clientId: string;
+  sessionId: string;
+}
+
+// Relay -> hub
+export type RelayMessage =
+  | { kind: 'connect'; clientId: string }
+  | { kind: 'send'; clientId: string; data: string }
+  | { kind: 'disconnect'; clientId: string };
+
+// Hub -> relays. Messages without a client id go to every connected relay.
+export type HubMessage =
+  | { kind: 'hub-online'; hubId: string }
+  | { kind: 'hub-closing'; hubId: string }
+  | { kind: 'open'; hubId: string; clientId: string }
+  | { kind: 'close'; hubId: string; clientId?: string; code: number; reason: string }
+  | { kind: 'message'; hubId: string; clientId?: string; data: string }
+  // A binary frame as received from the backend, carrying the backend-side session id.
+  // Each relay rewrites the header for its own sessions.
+  | { kind: 'frame'; hubId: string; targets: FrameTarget[]; data: ArrayBuffer };
+
+export type TabChannelMessage = RelayMessage | HubMessage;
+
+export const supportsTabSharing = (): boolean =>
+  typeof BroadcastChannel !== 'undefined' && typeof navigator !== 'undefined' && 'locks' in navigator;
@@ -0,0 +1,425 @@
+import type { FrameTransport } from '../types/stream';
+import type {
+  OutboundMessage,
+  SetStreamOptionsAction,
+  SocketTransport,
+  SocketTransportFactory,
+  StartStreamAction,
+  StreamOptions,
+} from '../types/socket';
+import { decodeBinaryFrame } from '../utils/frameCodec';
+import { createSessionId } from '../utils/streamUtils';
+import { getConfig } from './config';
+import { TAB_CHANNEL_NAME, TAB_LEADER_LOCK } from './tabChannel';
+import type { HubMessage, TabChannelMessage } from './tabChannel';
+
+const PING_INTERVAL_MS = 30000;
+
+// One tab session watching a shared stream
+interface Subscriber {
+  clientId: string;
+  sessionId: string;
+  // Request id of a start_stream still waiting for `stream.started`
+  pendingRequestId?: string;
+  options: StreamOptions;
+}
+
+// One stream pipeline on the backend, shared by every subscriber of the same URL
+interface SharedStream {
+  id: string;
+  key: string;
+  rtspUrl: string;
+  transport: FrameTransport;
+  subscribers: Map<string, Subscriber>;
+  started: Record<string, unknown> | null;
+  // Last `stream.options` reported by the backend, and what was last asked for
+  reportedOptions: Record<string, unknown> | null;
+  requestedOptions: string;
+}
+
+// Where the reply to a forwarded request has to go
+interface ForwardedRequest {
+  clientId: string;
+  requestId: string;
+  // Set for session requests, whose replies go out under the tab's own session id
+  sessionId?: string;
+}
+
+type InboundJson = Record<string, unknown> & { type?: unknown; session_id?: unknown; request_id?: unknown };
+
+const streamKey = (rtspUrl: string, transport: FrameTransport) => `${transport} ${rtspUrl}`;
+const subscriberKey = (clientId: string, sessionId: string) => `${clientId}:${sessionId}`;
+
+const OPTION_KEYS = ['fps', 'max_width', 'jpeg_quality'] as const;
+
+const pickOptions = (source: StreamOptions): StreamOptions => {
+  const options: StreamOptions = {};
+  OPTION_KEYS.forEach((key) => {
+    if (typeof source[key] === 'number') options[key] = source[key];
+  });
+  return options;
+};
+
+// The most demanding subscriber wins, so nobody gets less than they asked for. 0 means no limit.
+const mergeOptions = (subscribers: Iterable<Subscriber>): StreamOptions => {
+  const merged: StreamOptions = {};
+  for (const { options } of subscribers) {
+    OPTION_KEYS.forEach((key) => {
+      const value = options[key];
+      if (value === undefined) return;
+      const current = merged[key];
+      merged[key] = current === 0 || value === 0 ? 0 : Math.max(current ?? 0, value);
+    });
+  }
+  return merged;
+};
+
+/**
+ * Owns the backend socket for every tab. Starts each RTSP URL once no matter how many
+ * sessions watch it, fans replies and frames out to the subscribed sessions, and routes
+ * replies to other requests back to the tab that sent them.
+ */
+export class TabHub {
+  private readonly hubId = createSessionId();
+  private readonly channel = new BroadcastChannel(TAB_CHANNEL_NAME);
+  private upstream: SocketTransport | null = null;
+  private upstreamOpen = false;
+  private readonly clients: Set<string> = new Set();
+  private readonly streams: Map<string, SharedStream> = new Map();
+  private readonly streamsByKey: Map<string, SharedStream> = new Map();
+  private readonly subscriptions: Map<string, SharedStream> = new Map();
+  private readonly forwarded: Map<string, ForwardedRequest> = new Map();
+  private counter = 0;
+  private pingInterval: number | null = null;
+  private readonly createUpstream: SocketTransportFactory;
+
+  constructor(createUpstream: SocketTransportFactory) {
+    this.createUpstream = createUpstream;
+  }
+
+  start(): void {
+    this.channel.onmessage = (event: MessageEvent<TabChannelMessage>) => this.handleRelayMessage(event.data);
+    // Relays still attached to a previous hub reconnect when they hear about this one
+    this.post({ kind: 'hub-online', hubId: this.hubId });
+    window.addEventListener('pagehide', () => {
+      this.post({ kind: 'hub-closing', hubId: this.hubId });
+    });
+  }
+
+  private post(message: HubMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  private handleRelayMessage(message: TabChannelMessage): void {
+    switch (message.kind) {
+      case 'connect':
+        this.connectClient(message.clientId);
+        break;
+      case 'disconnect':
+        this.disconnectClient(message.clientId);
+        break;
+      case 'send':
+        if (this.clients.has(message.clientId)) this.handleClientAction(message.clientId, message.data);
+        break;
+    }
+  }
+
+  private connectClient(clientId: string): void {
+    this.clients.add(clientId);
+    if (this.upstreamOpen) {
+      this.post({ kind: 'open', hubId: this.hubId, clientId });
+    } else {
+      this.connectUpstream();
+    }
+  }
+
+  private disconnectClient(clientId: string): void {
+    if (!this.clients.delete(clientId)) return;
+    for (const [key, stream] of this.subscriptions) {
+      if (stream.subscribers.get(key)?.clientId === clientId) this.unsubscribe(key);
+    }
+    for (const [requestId, request] of this.forwarded) {
+      if (request.clientId === clientId) this.forwarded.delete(requestId);
+    }
+  }
+
+  private connectUpstream(): void {
+    if (this.upstream) return;
+
+    const upstream = this.createUpstream(getConfig().wsUrl);
+    upstream.binaryType = 'arraybuffer';
+    this.upstream = upstream;
+
+    upstream.onopen = () => {
+      if (this.upstream !== upstream) return;
+      console.log(`Shared socket open, serving ${this.clients.size} tab connection(s)`);
+      this.upstreamOpen = true;
+      this.clients.forEach((clientId) => this.post({ kind: 'open', hubId: this.hubId, clientId }));
+      this.pingInterval = window.setInterval(() => this.sendUpstream({ action: 'ping' }), PING_INTERVAL_MS);
+    };
+
+    upstream.onclose = (event) => {
+      if (this.upstream !== upstream) return;
+      this.handleUpstreamClose(event.code, event.reason);
+    };
+
+    upstream.onerror = (event) => {
+      console.error('Shared socket error:', event);
+    };
+
+    upstream.onmessage = (event) => {
+      if (this.upstream !== upstream) return;
+      if (event.data instanceof ArrayBuffer) {
+        this.handleUpstreamFrame(event.data);
+      } else {
+        this.handleUpstreamJson(event.data);
+      }
+    };
+  }
+
+  // Every relay sees the close and goes through its usual reconnect, which brings the
+  // upstream back and restores each tab's sessions
+  private handleUpstreamClose(code: number, reason: string): void {
+    console.log(`Shared socket closed with code: ${code}`);
+    this.upstream = null;
+    this.upstreamOpen = false;
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+    this.streams.clear();
+    this.streamsByKey.clear();
+    this.subscriptions.clear();
+    this.forwarded.clear();
+    this.clients.clear();
+    this.post({ kind: 'close', hubId: this.hubId, code, reason });
+  }
+
+  private sendUpstream(message: OutboundMessage): void {
+    if (!this.upstream || !this.upstreamOpen) {
+      console.warn('Shared socket not open, dropping', message.action);
+      return;
+    }
+    this.upstream.send(JSON.stringify(message));
+  }
+
+  private reply(clientId: string, message: Record<string, unknown>): void {
+    this.post({ kind: 'message', hubId: this.hubId, clientId, data: JSON.stringify(message) });
+  }
+
+  private handleClientAction(clientId: string, data: string): void {
+    let message: OutboundMessage;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      console.warn('Dropping malformed action from tab', clientId);
+      return;
+    }
+
+    switch (message.action) {
+      case 'ping':
+        // The hub keeps the backend alive itself, tabs only need to hear from the hub
+        this.reply(clientId, { type: 'pong', request_id: message.request_id, timestamp: Date.now() });
+        break;
+      case 'start_stream':
+        this.subscribe(clientId, message);
+        break;
+      case 'set_stream_options':
+        this.updateOptions(clientId, message);
+        break;
+      case 'stop_stream':
+        this.unsubscribe(subscriberKey(clientId, message.session_id));
+        this.reply(clientId, { type: 'stream.stopped', request_id: message.request_id, session_id: message.session_id });
+        break;
+      default: {
+        // Anything else goes to the backend under a hub request id, so the reply finds its way back
+        const requestId = `hub-${++this.counter}`;
+        if (message.request_id) this.forwarded.set(requestId, { clientId, requestId: message.request_id });
+        this.sendUpstream({ ...message, request_id: requestId });
+      }
+    }
+  }
+
+  private subscribe(clientId: string, action: StartStreamAction): void {
+    const key = subscriberKey(clientId, action.session_id);
+    this.unsubscribe(key);
+
+    const transport = action.transport ?? 'json';
+    const subscriber: Subscriber = {
+      clientId,
+      sessionId: action.session_id,
+      pendingRequestId: action.request_id,
+      options: pickOptions(action),
+    };
+
+    let stream = this.streamsByKey.get(streamKey(action.rtsp_url, transport));
+    if (!stream) {
+      stream = {
+        id: `hub-${++this.counter}`,
+        key: streamKey(action.rtsp_url, transport),
+        rtspUrl: action.rtsp_url,
+        transport,
+        subscribers: new Map([[key, subscriber]]),
+        started: null,
+        reportedOptions: null,
+        requestedOptions: JSON.stringify(subscriber.options),
+      };
+      this.streams.set(stream.id, stream);
+      this.streamsByKey.set(stream.key, stream);
+      this.subscriptions.set(key, stream);
+      this.sendUpstream({
+        ...subscriber.options,
+        action: 'start_stream',
+        session_id: stream.id,
+        rtsp_url: stream.rtspUrl,
+        transport,
+      });
+      return;
+    }
+
+    console.log(`Sharing stream ${stream.rtspUrl} with ${stream.subscribers.size} other session(s)`);
+    stream.subscribers.set(key, subscriber);
+    this.subscriptions.set(key, stream);
+    this.applyOptions(stream);
+
+    // Joining a stream that is already running
+    if (stream.started) {
+      this.deliver(subscriber, stream.started);
+      if (stream.reportedOptions) this.deliver(subscriber, stream.reportedOptions);
+    }
+  }
+
+  private updateOptions(clientId: string, action: SetStreamOptionsAction): void {
+    const stream = this.subscriptions.get(subscriberKey(clientId, action.session_id));
+    const subscriber = stream?.subscribers.get(subscriberKey(clientId, action.session_id));
+    if (!stream || !subscriber) {
+      this.reply(clientId, {
+        type: 'stream.error',
+        request_id: action.request_id,
+        session_id: action.session_id,
+        message: 'Stream is not running',
+      });
+      return;
+    }
+
+    subscriber.options = { ...subscriber.options, ...pickOptions(action) };
+    const forwarded = action.request_id ? { clientId, requestId: action.request_id, sessionId: action.session_id } : undefined;
+    if (!this.applyOptions(stream, forwarded)) {
+      // Nothing changes for the shared stream, answer with what is in effect
+      this.reply(clientId, {
+        ...(stream.reportedOptions ?? mergeOptions(stream.subscribers.values())),
+        type: 'stream.options',
+        request_id: action.request_id,
+        session_id: action.session_id,
+      });
+    }
+  }
+
+  // Sends the merged options upstream if they changed. Returns whether anything was sent.
+  private applyOptions(stream: SharedStream, forwarded?: ForwardedRequest): boolean {
+    const merged = mergeOptions(stream.subscribers.values());
+    const requested = JSON.stringify(merged);
+    if (requested === stream.requestedOptions) return false;
+
+    stream.requestedOptions = requested;
+    const requestId = `hub-${++this.counter}`;
+    if (forwarded) this.forwarded.set(requestId, forwarded);
+    this.sendUpstream({ ...merged, action: 'set_stream_options', session_id: stream.id, request_id: requestId });
+    return true;
+  }
+
+  private unsubscribe(key: string): void {
+    const stream = this.subscriptions.get(key);
+    if (!stream) return;
+
+    this.subscriptions.delete(key);
+    stream.subscribers.delete(key);
+    if (stream.subscribers.size === 0) {
+      this.removeStream(stream);
+      this.sendUpstream({ action: 'stop_stream', session_id: stream.id });
+    } else {
+      // The one who left may have been the most demanding
+      this.applyOptions(stream);
+    }
+  }
+
+  private removeStream(stream: SharedStream): void {
+    this.streams.delete(stream.id);
+    this.streamsByKey.delete(stream.key);
+    stream.subscribers.forEach((_, key) => this.subscriptions.delete(key));
+  }
+
+  // Sends a session message to one subscriber under its own session id
+  private deliver(subscriber: Subscriber, message: Record<string, unknown>, forwarded?: ForwardedRequest): void {
+    const out: Record<string, unknown> = { ...message, session_id: subscriber.sessionId };
+    delete out.request_id;
+    if (forwarded && forwarded.clientId === subscriber.clientId && forwarded.sessionId === subscriber.sessionId) {
+      out.request_id = forwarded.requestId;
+    }
+
+    const settlesStart = message.type === 'stream.started' || message.type === 'stream.error';
+    if (settlesStart && subscriber.pendingRequestId) {
+      out.request_id = subscriber.pendingRequestId;
+      subscriber.pendingRequestId = undefined;
+    }
+    this.reply(subscriber.clientId, out);
+  }
+
+  private handleUpstreamFrame(buffer: ArrayBuffer): void {
+    const frame = decodeBinaryFrame(buffer);
+    const stream = frame?.sessionId ? this.streams.get(frame.sessionId) : undefined;
+    if (!stream) return;
+
+    const targets = [...stream.subscribers.values()].map(({ clientId, sessionId }) => ({ clientId, sessionId }));
+    this.post({ kind: 'frame', hubId: this.hubId, targets, data: buffer });
+  }
+
+  private handleUpstreamJson(data: string): void {
+    let message: InboundJson;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      // Let every tab reject it through its own protocol validation
+      this.post({ kind: 'message', hubId: this.hubId, data });
+      return;
+    }
+
+    const forwarded = typeof message.request_id === 'string' ? this.forwarded.get(message.request_id) : undefined;
+    if (forwarded) this.forwarded.delete(message.request_id as string);
+
+    const stream = typeof message.session_id === 'string' ? this.streams.get(message.session_id) : undefined;
+    if (stream) {
+      if (message.type === 'stream.started') stream.started = message;
+      if (message.type === 'stream.options') stream.reportedOptions = message;
+      stream.subscribers.forEach((subscriber) => this.deliver(subscriber, message, forwarded));
+      // The backend ended this pipeline; each tab decides whether to start it again
+      if (message.type === 'stream.error' || message.type === 'stream.stopped') this.removeStream(stream);
+      return;
+    }
+
+    if (forwarded) {
+      const reply = { ...message, request_id: forwarded.requestId };
+      if (forwarded.sessionId) reply.session_id = forwarded.sessionId;
+      this.reply(forwarded.clientId, reply);
+      return;
+    }
+
+    // Our own keepalive
+    if (message.type === 'pong') return;
+
+    this.post({ kind: 'message', hubId: this.hubId, data });
+  }
+}
+
+/**
+ * Competes for the leader lock. The tab that gets it runs the hub until it closes, at which
+ * point the lock passes to another waiting tab.
+ */
+export function electTabHub(createUpstream: SocketTransportFactory): void {
+  navigator.locks.request(TAB_LEADER_LOCK, () => {
+    console.log('This tab now holds the shared socket connection');
+    new TabHub(createUpstream).start();
+    // Never resolves, so the lock is held for the lifetime of the tab
+    return new Promise<void>(() => {});
+  });
+}
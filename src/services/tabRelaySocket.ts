@@ -0,0 +1,128 @@
+import type { SocketTransport } from '../types/socket';
+import { decodeBinaryFrame, encodeBinaryFrame } from '../utils/frameCodec';
+import { createSessionId } from '../utils/streamUtils';
+import { ABNORMAL_CLOSURE } from './protocol';
+import { TAB_CHANNEL_NAME } from './tabChannel';
+import type { RelayMessage, TabChannelMessage } from './tabChannel';
+
+// Covers a tab still waiting for the leader lock to be handed over
+const CONNECT_TIMEOUT_MS = 10000;
+
+/**
+ * Socket transport that talks to the TabHub in the leader tab instead of the backend,
+ * so the socket service works unchanged on top of a shared connection.
+ */
+export class TabRelaySocket implements SocketTransport {
+  readyState: number = WebSocket.CONNECTING;
+  binaryType: BinaryType = 'arraybuffer';
+  onopen: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  private readonly clientId = createSessionId();
+  private readonly channel = new BroadcastChannel(TAB_CHANNEL_NAME);
+  private hubId: string | null = null;
+  private connectTimer: number | null;
+
+  constructor() {
+    this.channel.onmessage = (event: MessageEvent<TabChannelMessage>) => this.handleHubMessage(event.data);
+    this.post({ kind: 'connect', clientId: this.clientId });
+    this.connectTimer = window.setTimeout(() => {
+      this.connectTimer = null;
+      this.onerror?.(new Event('error'));
+      this.drop(ABNORMAL_CLOSURE, 'No tab answered with a shared connection');
+    }, CONNECT_TIMEOUT_MS);
+  }
+
+  send(data: string | ArrayBufferLike | Blob | ArrayBufferView): void {
+    if (this.readyState !== WebSocket.OPEN) {
+      throw new DOMException('Shared connection is not open', 'InvalidStateError');
+    }
+    // The backend only accepts JSON actions
+    if (typeof data !== 'string') return;
+    this.post({ kind: 'send', clientId: this.clientId, data });
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState === WebSocket.CLOSING || this.readyState === WebSocket.CLOSED) return;
+    this.post({ kind: 'disconnect', clientId: this.clientId });
+    this.drop(code, reason);
+  }
+
+  private post(message: RelayMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  private handleHubMessage(message: TabChannelMessage): void {
+    switch (message.kind) {
+      case 'hub-online':
+        if (this.readyState === WebSocket.CONNECTING) {
+          this.post({ kind: 'connect', clientId: this.clientId });
+        } else if (message.hubId !== this.hubId) {
+          this.drop(ABNORMAL_CLOSURE, 'Shared connection moved to another tab');
+        }
+        break;
+      case 'hub-closing':
+        if (message.hubId === this.hubId) {
+          this.drop(ABNORMAL_CLOSURE, 'The tab holding the shared connection closed');
+        }
+        break;
+      case 'open':
+        if (message.clientId === this.clientId && this.readyState === WebSocket.CONNECTING) {
+          this.hubId = message.hubId;
+          this.readyState = WebSocket.OPEN;
+          if (this.connectTimer) {
+            clearTimeout(this.connectTimer);
+            this.connectTimer = null;
+          }
+          this.onopen?.(new Event('open'));
+        }
+        break;
+      case 'close':
+        if (this.isForMe(message)) this.drop(message.code, message.reason);
+        break;
+      case 'message':
+        if (this.isForMe(message) && this.readyState === WebSocket.OPEN) {
+          this.onmessage?.(new MessageEvent('message', { data: message.data }));
+        }
+        break;
+      case 'frame':
+        if (message.hubId === this.hubId && this.readyState === WebSocket.OPEN) {
+          this.deliverFrame(message.data, message.targets.filter((target) => target.clientId === this.clientId));
+        }
+        break;
+    }
+  }
+
+  // Connecting relays don't know their hub yet, so they accept a close from whichever hub sends it
+  private isForMe(message: { hubId: string; clientId?: string }): boolean {
+    if (message.clientId !== undefined && message.clientId !== this.clientId) return false;
+    return this.readyState === WebSocket.CONNECTING || message.hubId === this.hubId;
+  }
+
+  // Rewrites the backend session id in the frame header to each local session watching the stream
+  private deliverFrame(buffer: ArrayBuffer, targets: { sessionId: string }[]): void {
+    if (targets.length === 0) return;
+    const frame = decodeBinaryFrame(buffer);
+    if (!frame || typeof frame.data === 'string') return;
+
+    for (const { sessionId } of targets) {
+      const data = encodeBinaryFrame({ ...frame, sessionId, data: frame.data });
+      this.onmessage?.(new MessageEvent('message', { data }));
+    }
+  }
+
+  private drop(code: number, reason: string): void {
+    if (this.readyState === WebSocket.CLOSED) return;
+    this.readyState = WebSocket.CLOSED;
+    if (this.connectTimer) {
+      clearTimeout(this.connectTimer);
+      this.connectTimer = null;
+    }
+    this.channel.close();
+    window.setTimeout(() => {
+      this.onclose?.(new CloseEvent('close', { code, reason, wasClean: code === 1000 }));
+    }, 0);
+  }
+}
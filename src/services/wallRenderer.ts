@@ -0,0 +1,358 @@
+import type { TileSettings } from '../types/renderer';
+import type { PrivacyMask } from '../types/stream';
+import type { FrameRingBuffer } from './frameBuffer';
+import { onPaint } from './paintLoop';
+import { frameToBlob } from '../utils/frameCodec';
+import { PrivacyMasker, createDomScratch } from '../utils/privacyMask';
+
+export const DEFAULT_TILE_SETTINGS: TileSettings = { fit: 'contain', brightness: 1, contrast: 1 };
+
+export interface WallTileSource {
+  // The renderer paints into the part of its canvas that this element covers
+  element: HTMLElement;
+  frames: FrameRingBuffer;
+  settings: TileSettings;
+  privacyMasks: PrivacyMask[];
+  // Reports frames uploaded to the GPU, which drives the session's backpressure
+  onRendered?: (count: number) => void;
+}
+
+export interface WallTileHandle {
+  setSettings(settings: TileSettings): void;
+  setPrivacyMasks(masks: PrivacyMask[]): void;
+  remove(): void;
+}
+
+interface Tile {
+  source: WallTileSource;
+  settings: TileSettings;
+  texture: WebGLTexture | null;
+  masker: PrivacyMasker;
+  // Masked frames are drawn here first, unmasked pixels never reach the GPU
+  maskCanvas: HTMLCanvasElement | null;
+  width: number;
+  height: number;
+  // Buffer position of the frame last taken for decoding
+  position: number;
+  decoding: boolean;
+}
+
+// The quad fills whatever viewport it is drawn into, the viewport does the placing and scaling
+const VERTEX_SHADER = `
+attribute vec2 a_position;
+varying vec2 v_texCoord;
+void main() {
+  v_texCoord = vec2(a_position.x * 0.5 + 0.5, 0.5 - a_position.y * 0.5);
+  gl_Position = vec4(a_position, 0.0, 1.0);
+}`;
+
+// Same order and formulas as CSS `brightness() contrast()`, so the 2D fallback looks alike
+const FRAGMENT_SHADER = `
+precision mediump float;
+uniform sampler2D u_frame;
+uniform float u_brightness;
+uniform float u_contrast;
+varying vec2 v_texCoord;
+void main() {
+  vec3 rgb = texture2D(u_frame, v_texCoord).rgb * u_brightness;
+  rgb = (rgb - 0.5) * u_contrast + 0.5;
+  gl_FragColor = vec4(clamp(rgb, 0.0, 1.0), 1.0);
+}`;
+
+const compileShader = (gl: WebGLRenderingContext, type: number, source: string): WebGLShader => {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error('Could not create shader');
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Shader failed to compile: ${log}`);
+  }
+  return shader;
+};
+
+const createProgram = (gl: WebGLRenderingContext): WebGLProgram => {
+  const program = gl.createProgram();
+  if (!program) throw new Error('Could not create shader program');
+  const vertex = compileShader(gl, gl.VERTEX_SHADER, VERTEX_SHADER);
+  const fragment = compileShader(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER);
+  gl.attachShader(program, vertex);
+  gl.attachShader(program, fragment);
+  gl.linkProgram(program);
+  // The program keeps what it needs once linked
+  gl.deleteShader(vertex);
+  gl.deleteShader(fragment);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Shader program failed to link: ${gl.getProgramInfoLog(program)}`);
+  }
+  return program;
+};
+
+// Where a frame of the given size goes inside a tile, in device pixels
+const fitRect = (
+  settings: TileSettings,
+  x: number, y: number, width: number, height: number,
+  frameWidth: number, frameHeight: number,
+): [number, number, number, number] => {
+  if (settings.fit === 'fill') return [x, y, width, height];
+  const scale = settings.fit === 'contain'
+    ? Math.min(width / frameWidth, height / frameHeight)
+    : Math.max(width / frameWidth, height / frameHeight);
+  const fittedWidth = Math.round(frameWidth * scale);
+  const fittedHeight = Math.round(frameHeight * scale);
+  return [x + Math.round((width - fittedWidth) / 2), y + Math.round((height - fittedHeight) / 2), fittedWidth, fittedHeight];
+};
+
+/**
+ * Paints many streams into one WebGL canvas. Each tile is an element laid out by the page;
+ * its newest frame is decoded to a bitmap, uploaded as a texture and drawn into the part of
+ * the canvas under the element. Tiles scrolled out of view are neither decoded nor drawn.
+ */
+export class WallRenderer {
+  private readonly canvas: HTMLCanvasElement;
+  private readonly gl: WebGLRenderingContext;
+  private readonly program: WebGLProgram;
+  private readonly quad: WebGLBuffer;
+  private readonly brightnessLocation: WebGLUniformLocation | null;
+  private readonly contrastLocation: WebGLUniformLocation | null;
+  private readonly onContextLost: () => void;
+  private readonly tiles: Set<Tile> = new Set();
+  private readonly stopPainting: () => void;
+  // Set when a texture or setting changed; layout changes are caught by comparing tile positions
+  private dirty = true;
+  private lastLayout = '';
+  private disposed = false;
+
+  constructor(canvas: HTMLCanvasElement, gl: WebGLRenderingContext, onContextLost: () => void) {
+    this.canvas = canvas;
+    this.gl = gl;
+    this.onContextLost = onContextLost;
+    this.program = createProgram(gl);
+
+    const quad = gl.createBuffer();
+    if (!quad) throw new Error('Could not create vertex buffer');
+    this.quad = quad;
+    gl.bindBuffer(gl.ARRAY_BUFFER, quad);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([-1, -1, 1, -1, -1, 1, 1, 1]), gl.STATIC_DRAW);
+
+    gl.useProgram(this.program);
+    const position = gl.getAttribLocation(this.program, 'a_position');
+    gl.enableVertexAttribArray(position);
+    gl.vertexAttribPointer(position, 2, gl.FLOAT, false, 0, 0);
+    gl.uniform1i(gl.getUniformLocation(this.program, 'u_frame'), 0);
+    this.brightnessLocation = gl.getUniformLocation(this.program, 'u_brightness');
+    this.contrastLocation = gl.getUniformLocation(this.program, 'u_contrast');
+
+    canvas.addEventListener('webglcontextlost', this.handleContextLost);
+    this.stopPainting = onPaint(this.paint);
+  }
+
+  addTile(source: WallTileSource): WallTileHandle {
+    const masker = new PrivacyMasker(createDomScratch);
+    masker.setMasks(source.privacyMasks);
+    const tile: Tile = {
+      source,
+      settings: source.settings,
+      texture: null,
+      masker,
+      maskCanvas: null,
+      width: 0,
+      height: 0,
+      position: -1,
+      decoding: false,
+    };
+    this.tiles.add(tile);
+    this.dirty = true;
+
+    return {
+      setSettings: (settings) => {
+        tile.settings = settings;
+        this.dirty = true;
+      },
+      setPrivacyMasks: (masks) => {
+        tile.masker.setMasks(masks);
+        // Upload the current frame again with the new masks
+        tile.position = -1;
+      },
+      remove: () => {
+        if (!this.tiles.delete(tile)) return;
+        if (tile.texture && !this.disposed) this.gl.deleteTexture(tile.texture);
+        tile.texture = null;
+        this.dirty = true;
+      },
+    };
+  }
+
+  dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+    this.stopPainting();
+    this.canvas.removeEventListener('webglcontextlost', this.handleContextLost);
+
+    const gl = this.gl;
+    this.tiles.forEach((tile) => {
+      if (tile.texture) gl.deleteTexture(tile.texture);
+    });
+    this.tiles.clear();
+    gl.deleteBuffer(this.quad);
+    gl.deleteProgram(this.program);
+    // Browsers only allow a handful of live contexts, give this one back right away
+    gl.getExtension('WEBGL_lose_context')?.loseContext();
+  }
+
+  private handleContextLost = () => {
+    console.warn('Wall renderer lost its WebGL context');
+    this.dispose();
+    this.onContextLost();
+  };
+
+  private paint = () => {
+    const canvasRect = this.canvas.getBoundingClientRect();
+    const ratio = window.devicePixelRatio || 1;
+    const width = Math.round(canvasRect.width * ratio);
+    const height = Math.round(canvasRect.height * ratio);
+    if (this.canvas.width !== width || this.canvas.height !== height) {
+      this.canvas.width = width;
+      this.canvas.height = height;
+      this.dirty = true;
+    }
+
+    const layout: string[] = [];
+    const visible: Map<Tile, DOMRect> = new Map();
+    this.tiles.forEach((tile) => {
+      const rect = tile.source.element.getBoundingClientRect();
+      layout.push(`${rect.left - canvasRect.left},${rect.top - canvasRect.top},${rect.width},${rect.height}`);
+      const onScreen = rect.width > 0 && rect.height > 0
+        && rect.bottom > 0 && rect.right > 0 && rect.top < window.innerHeight && rect.left < window.innerWidth;
+      if (!onScreen) return;
+      visible.set(tile, rect);
+      this.pull(tile);
+    });
+
+    const layoutKey = layout.join(';');
+    if (layoutKey !== this.lastLayout) {
+      this.lastLayout = layoutKey;
+      this.dirty = true;
+    }
+    if (!this.dirty) return;
+    this.dirty = false;
+    this.draw(canvasRect, ratio, visible);
+  };
+
+  // Starts decoding the tile's newest frame, unless it is still busy with the previous one
+  private pull(tile: Tile): void {
+    if (tile.decoding) return;
+    const { frames } = tile.source;
+    const frame = frames.latest();
+    if (!frame) {
+      // The stream stopped and its frames were dropped
+      if (tile.texture) {
+        this.gl.deleteTexture(tile.texture);
+        tile.texture = null;
+        this.dirty = true;
+      }
+      return;
+    }
+    if (frames.position === tile.position) return;
+    tile.position = frames.position;
+    tile.decoding = true;
+
+    createImageBitmap(frameToBlob(frame)).then((bitmap) => {
+      tile.decoding = false;
+      if (!this.disposed && this.tiles.has(tile)) {
+        this.upload(tile, bitmap);
+        tile.source.onRendered?.(1);
+      }
+      bitmap.close();
+    }, (err) => {
+      tile.decoding = false;
+      console.error('Wall renderer: failed to decode frame', err);
+    });
+  }
+
+  private upload(tile: Tile, bitmap: ImageBitmap): void {
+    const gl = this.gl;
+    if (!tile.texture) {
+      tile.texture = gl.createTexture();
+      gl.bindTexture(gl.TEXTURE_2D, tile.texture);
+      // Frames are rarely a power of two in size, which WebGL 1 only allows without mipmaps or wrapping
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    } else {
+      gl.bindTexture(gl.TEXTURE_2D, tile.texture);
+    }
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, tile.masker.active ? this.mask(tile, bitmap) : bitmap);
+    tile.width = bitmap.width;
+    tile.height = bitmap.height;
+    this.dirty = true;
+  }
+
+  private mask(tile: Tile, bitmap: ImageBitmap): HTMLCanvasElement {
+    const canvas = (tile.maskCanvas ??= document.createElement('canvas'));
+    if (canvas.width !== bitmap.width) canvas.width = bitmap.width;
+    if (canvas.height !== bitmap.height) canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+      ctx.drawImage(bitmap, 0, 0);
+      tile.masker.apply(ctx, bitmap, 0, 0, bitmap.width, bitmap.height);
+    } else {
+      // Better a black tile than an unmasked one
+      canvas.width = 1;
+      canvas.height = 1;
+    }
+    return canvas;
+  }
+
+  private draw(canvasRect: DOMRect, ratio: number, visible: Map<Tile, DOMRect>): void {
+    const gl = this.gl;
+    gl.disable(gl.SCISSOR_TEST);
+    gl.viewport(0, 0, this.canvas.width, this.canvas.height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+
+    // Each tile is cleared to black, which also leaves the letterbox bars
+    gl.enable(gl.SCISSOR_TEST);
+    gl.clearColor(0, 0, 0, 1);
+    visible.forEach((rect, tile) => {
+      // WebGL counts from the bottom left corner
+      const x = Math.round((rect.left - canvasRect.left) * ratio);
+      const y = Math.round((canvasRect.bottom - rect.bottom) * ratio);
+      const width = Math.round(rect.width * ratio);
+      const height = Math.round(rect.height * ratio);
+      gl.scissor(x, y, width, height);
+      gl.clear(gl.COLOR_BUFFER_BIT);
+      if (!tile.texture || tile.width === 0 || tile.height === 0) return;
+
+      gl.viewport(...fitRect(tile.settings, x, y, width, height, tile.width, tile.height));
+      gl.bindTexture(gl.TEXTURE_2D, tile.texture);
+      gl.uniform1f(this.brightnessLocation, tile.settings.brightness);
+      gl.uniform1f(this.contrastLocation, tile.settings.contrast);
+      gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+    });
+  }
+}
+
+/**
+ * A WallRenderer for the canvas, or null when WebGL isn't available and tiles should
+ * paint themselves with the 2D renderer. `onContextLost` is called if the GPU drops the
+ * context later on; the renderer is unusable after that.
+ */
+export const createWallRenderer = (canvas: HTMLCanvasElement, onContextLost: () => void): WallRenderer | null => {
+  let gl: WebGLRenderingContext | null = null;
+  try {
+    gl = canvas.getContext('webgl', { antialias: false, preserveDrawingBuffer: false });
+  } catch (err) {
+    console.warn('WebGL is not available:', err);
+  }
+  if (!gl) return null;
+
+  try {
+    return new WallRenderer(canvas, gl, onContextLost);
+  } catch (err) {
+    console.error('Could not set up the WebGL wall renderer:', err);
+    return null;
+  }
+};
@@ -0,0 +1,94 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { Annotation, AnnotationPoint } from '../types/annotation';
+
+interface AnnotationStoreState {
+  // Keyed by stream id, oldest first so newer annotations are drawn on top
+  annotations: Record<string, Annotation[]>;
+  // Streams whose annotations are switched off; the rest show theirs
+  hidden: Record<string, boolean>;
+  addAnnotation: (streamKey: string, annotation: Annotation) => void;
+  moveAnnotation: (streamKey: string, id: string, start: AnnotationPoint, end: AnnotationPoint) => void;
+  removeAnnotation: (streamKey: string, id: string) => void;
+  clearAnnotations: (streamKey: string) => void;
+  // Drops every annotation that expired by `now`
+  pruneExpired: (now: number) => void;
+  setVisible: (streamKey: string, visible: boolean) => void;
+}
+
+export const isExpired = (annotation: Annotation, now: number): boolean =>
+  annotation.expiresAt !== null && annotation.expiresAt <= now;
+
+const withoutExpired = (annotations: Record<string, Annotation[]>, now: number): Record<string, Annotation[]> =>
+  Object.fromEntries(Object.entries(annotations)
+    .map(([streamKey, list]) => [streamKey, list.filter((annotation) => !isExpired(annotation, now))] as const)
+    .filter(([, list]) => list.length > 0));
+
+// Kept in localStorage so annotations survive a reload
+export const useAnnotationStore = create<AnnotationStoreState>()(
+  persist(
+    (set) => ({
+      annotations: {},
+      hidden: {},
+
+      addAnnotation: (streamKey, annotation) => {
+        set((state) => ({
+          annotations: { ...state.annotations, [streamKey]: [...(state.annotations[streamKey] ?? []), annotation] },
+        }));
+      },
+
+      moveAnnotation: (streamKey, id, start, end) => {
+        set((state) => ({
+          annotations: {
+            ...state.annotations,
+            [streamKey]: (state.annotations[streamKey] ?? []).map((annotation) => (
+              annotation.id === id ? { ...annotation, start, end } : annotation
+            )),
+          },
+        }));
+      },
+
+      removeAnnotation: (streamKey, id) => {
+        set((state) => ({
+          annotations: {
+            ...state.annotations,
+            [streamKey]: (state.annotations[streamKey] ?? []).filter((annotation) => annotation.id !== id),
+          },
+        }));
+      },
+
+      clearAnnotations: (streamKey) => {
+        set((state) => {
+          const annotations = { ...state.annotations };
+          delete annotations[streamKey];
+          return { annotations };
+        });
+      },
+
+      pruneExpired: (now) => {
+        set((state) => (
+          Object.values(state.annotations).some((list) => list.some((annotation) => isExpired(annotation, now)))
+            ? { annotations: withoutExpired(state.annotations, now) }
+            : state
+        ));
+      },
+
+      setVisible: (streamKey, visible) => {
+        set((state) => {
+          const hidden = { ...state.hidden };
+          if (visible) delete hidden[streamKey];
+          else hidden[streamKey] = true;
+          return { hidden };
+        });
+      },
+    }),
+    {
+      name: 'streamAnnotations',
+      // Whatever expired while the page was closed is dropped on load
+      merge: (persisted, current) => {
+        const saved = (persisted ?? {}) as Partial<AnnotationStoreState>;
+        return { ...current, ...saved, annotations: withoutExpired(saved.annotations ?? {}, Date.now()) };
+      },
+    },
+  ),
+);
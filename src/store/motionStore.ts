@@ -0,0 +1,82 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { MotionEvent, MotionSettings } from '../types/motion';
+
+interface MotionStoreState {
+  // Keyed by stream id; streams without an entry use DEFAULT_MOTION_SETTINGS
+  settings: Record<string, MotionSettings>;
+  // Newest first, per stream
+  events: Record<string, MotionEvent[]>;
+  setSettings: (streamKey: string, settings: MotionSettings) => void;
+  startEvent: (streamKey: string, startedAt: number, level: number) => void;
+  // Raises the peak of the stream's open event
+  updateEvent: (streamKey: string, level: number) => void;
+  endEvent: (streamKey: string, endedAt: number) => void;
+  clearEvents: (streamKey: string) => void;
+}
+
+// Older events fall off the log
+const MAX_EVENTS_PER_STREAM = 100;
+
+// Replaces the stream's newest event if it is still open
+const updateOpen = (events: MotionEvent[] | undefined, update: (event: MotionEvent) => MotionEvent): MotionEvent[] | null => {
+  const open = events?.[0];
+  if (!events || !open || open.endedAt !== null) return null;
+  return [update(open), ...events.slice(1)];
+};
+
+// Kept in localStorage so zones and the event log survive a reload
+export const useMotionStore = create<MotionStoreState>()(
+  persist(
+    (set) => ({
+      settings: {},
+      events: {},
+
+      setSettings: (streamKey, settings) => {
+        set((state) => ({ settings: { ...state.settings, [streamKey]: settings } }));
+      },
+
+      startEvent: (streamKey, startedAt, level) => {
+        set((state) => {
+          const event: MotionEvent = { streamKey, startedAt, endedAt: null, peak: level };
+          const events = [event, ...(state.events[streamKey] ?? [])].slice(0, MAX_EVENTS_PER_STREAM);
+          return { events: { ...state.events, [streamKey]: events } };
+        });
+      },
+
+      updateEvent: (streamKey, level) => {
+        set((state) => {
+          const events = updateOpen(state.events[streamKey], (event) => ({ ...event, peak: Math.max(event.peak, level) }));
+          return events ? { events: { ...state.events, [streamKey]: events } } : state;
+        });
+      },
+
+      endEvent: (streamKey, endedAt) => {
+        set((state) => {
+          const events = updateOpen(state.events[streamKey], (event) => ({ ...event, endedAt }));
+          return events ? { events: { ...state.events, [streamKey]: events } } : state;
+        });
+      },
+
+      clearEvents: (streamKey) => {
+        set((state) => {
+          const events = { ...state.events };
+          delete events[streamKey];
+          return { events };
+        });
+      },
+    }),
+    {
+      name: 'streamMotion',
+      // An event still open when the page closed has no known end; close it where it started
+      merge: (persisted, current) => {
+        const saved = (persisted ?? {}) as Partial<MotionStoreState>;
+        const events = Object.fromEntries(Object.entries(saved.events ?? {}).map(([streamKey, list]) => [
+          streamKey,
+          list.map((event) => (event.endedAt === null ? { ...event, endedAt: event.startedAt } : event)),
+        ]));
+        return { ...current, ...saved, events };
+      },
+    },
+  ),
+);
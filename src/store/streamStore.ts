@@ -14,7 +14,6 @@ interface StreamState {
   removeStream: (id: string | number) => Promise<void>;
   selectStream: (id: string | number | null) => void;
   getSelectedStream: () => Stream | undefined;
-  setStreamState: (id: string | number, state: { status?: string; error?: string; wsUrl?: string; rtspUrl?: string }) => void;
 }
 
 export const useStreamStore = create<StreamState>((set, get) => ({
@@ -107,13 +106,5 @@ export const useStreamStore = create<StreamState>((set, get) => ({
   getSelectedStream: () => {
     const { streams, selectedStreamId } = get();
     return streams.find(stream => stream.id === selectedStreamId);
-  },
-  
-  setStreamState: (id, state) => {
-    set(store => ({
-      streams: store.streams.map(stream => 
-        stream.id === id ? { ...stream, ...state } : stream
-      )
-    }));
   }
 })); 
\ No newline at end of file
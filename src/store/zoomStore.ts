@@ -0,0 +1,32 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { ZoomState } from '../types/renderer';
+
+interface ZoomStoreState {
+  // Keyed by stream id, streams without an entry aren't zoomed
+  zooms: Record<string, ZoomState>;
+  setZoom: (streamKey: string, zoom: ZoomState) => void;
+  resetZoom: (streamKey: string) => void;
+}
+
+// Kept in localStorage so a stream opens at the same spot it was last looked at
+export const useZoomStore = create<ZoomStoreState>()(
+  persist(
+    (set) => ({
+      zooms: {},
+
+      setZoom: (streamKey, zoom) => {
+        set((state) => ({ zooms: { ...state.zooms, [streamKey]: zoom } }));
+      },
+
+      resetZoom: (streamKey) => {
+        set((state) => {
+          const zooms = { ...state.zooms };
+          delete zooms[streamKey];
+          return { zooms };
+        });
+      },
+    }),
+    { name: 'streamZoom' },
+  ),
+);
@@ -0,0 +1,18 @@
+// A point as fractions of the frame, 0..1 from the top left
+export type AnnotationPoint = [number, number];
+
+export type AnnotationKind = 'arrow' | 'box' | 'text';
+
+export interface Annotation {
+  id: string;
+  kind: AnnotationKind;
+  // Arrows point from start to end, boxes span the two corners, text sits at start
+  start: AnnotationPoint;
+  end: AnnotationPoint;
+  // Only used by text annotations
+  text: string;
+  color: string;
+  createdAt: number;
+  // Gone after this time; null keeps the annotation until it is deleted
+  expiresAt: number | null;
+}
@@ -0,0 +1,36 @@
+// A point as fractions of the frame, 0..1 from the top left
+export type ZonePoint = [number, number];
+
+// Include zones limit detection to what's inside them, exclude zones are ignored on top of that
+export type MotionZoneKind = 'include' | 'exclude';
+
+export interface MotionZone {
+  id: string;
+  kind: MotionZoneKind;
+  points: ZonePoint[];
+}
+
+// What happens when motion starts on a stream
+export interface MotionAlerts {
+  toast: boolean;
+  sound: boolean;
+  // Switch the streams page over to the stream
+  select: boolean;
+}
+
+export interface MotionSettings {
+  enabled: boolean;
+  // 0..1, higher reacts to smaller changes
+  sensitivity: number;
+  zones: MotionZone[];
+  alerts: MotionAlerts;
+}
+
+// One stretch of motion; open while `endedAt` is null
+export interface MotionEvent {
+  streamKey: string;
+  startedAt: number;
+  endedAt: number | null;
+  // Highest share of the watched area that changed, 0..1
+  peak: number;
+}
@@ -0,0 +1,23 @@
+// Why a recording ended: the user stopped it, or it hit the size or duration cap
+export type RecordingStopReason = 'user' | 'size' | 'duration' | 'error';
+
+// A clip recorded from a live stream in the browser
+export interface Recording {
+  streamKey: string;
+  streamName: string;
+  startedAt: number;
+  endedAt: number;
+  mimeType: string;
+  size: number;
+  stopReason: RecordingStopReason;
+  blob: Blob;
+}
+
+export interface StoredRecording extends Recording {
+  id: number;
+}
+
+export interface RecordingProgress {
+  elapsedMs: number;
+  bytes: number;
+}
@@ -0,0 +1,47 @@
+import type { MotionZone } from './motion';
+import type { PrivacyMask } from './stream';
+
+// Messages between a player and the worker that decodes and paints its frames
+
+export type RendererRequest =
+  // Sent once, handing the player's canvas over to the worker; without one frames are only decoded
+  | { type: 'init'; canvas: OffscreenCanvas | null }
+  // JPEG bytes (transferred) or a base64 JPEG string from the JSON transport
+  | { type: 'frame'; data: ArrayBuffer | string }
+  // Turns motion detection on for the given zones, or off with null
+  | { type: 'motion'; zones: MotionZone[] | null }
+  // Covered on every frame from the next one on
+  | { type: 'masks'; masks: PrivacyMask[] };
+
+// What a renderer reports back. Counts cover the time since the previous report.
+export interface FrameRenderStats {
+  rendered: number;
+  // Frames replaced by a newer one before they were decoded
+  dropped: number;
+  // Average decode + draw time of the rendered frames
+  decodeMs: number;
+  width: number;
+  height: number;
+  error: string | null;
+  // Highest motion level (0..1) among the rendered frames, null while detection is off
+  motion: number | null;
+}
+
+export type RendererResponse = { type: 'stats' } & FrameRenderStats;
+
+// How a frame fills its tile on the wall: letterboxed, cropped, or stretched
+export type TileFit = 'contain' | 'cover' | 'fill';
+
+export interface TileSettings {
+  fit: TileFit;
+  // Multipliers, 1 leaves the image as is; same meaning as the CSS brightness() and contrast() filters
+  brightness: number;
+  contrast: number;
+}
+
+// Digital zoom of a player. x and y are the centre of the visible region, as fractions of the player.
+export interface ZoomState {
+  scale: number;
+  x: number;
+  y: number;
+}
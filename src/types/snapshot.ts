@@ -0,0 +1,24 @@
+export type SnapshotFormat = 'png' | 'jpeg';
+
+// Text burned into the bottom corner of a snapshot
+export interface SnapshotWatermark {
+  streamName: string;
+  capturedAt: number;
+  operator?: string;
+}
+
+// A still taken from a live stream, at the frame's native resolution
+export interface Snapshot {
+  streamKey: string;
+  streamName: string;
+  capturedAt: number;
+  width: number;
+  height: number;
+  watermarked: boolean;
+  // Always PNG, converted when downloaded as JPEG
+  blob: Blob;
+}
+
+export interface StoredSnapshot extends Snapshot {
+  id: number;
+}
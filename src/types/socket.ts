@@ -0,0 +1,277 @@
+import type { FrameData, FrameTransport } from './stream';
+
+export type SocketConnectionState = 'connecting' | 'open' | 'closing' | 'closed' | 'uninstantiated';
+
+// Delivery settings a client asks for. The backend may clamp them and reports what it applied.
+export interface StreamOptions {
+  // 0 means the source frame rate
+  fps?: number;
+  // 0 means the source width
+  max_width?: number;
+  // 1-100
+  jpeg_quality?: number;
+}
+
+// Inbound messages (server -> client)
+
+export interface StreamFrameMessage {
+  type: 'stream.frame';
+  request_id?: string;
+  session_id?: string;
+  frame: FrameData;
+  timestamp?: number;
+  sequence?: number;
+}
+
+export interface StreamStartingMessage {
+  type: 'stream.starting';
+  request_id?: string;
+  session_id?: string;
+  message?: string;
+}
+
+export interface StreamStartedMessage {
+  type: 'stream.started';
+  request_id?: string;
+  session_id?: string;
+  width?: number;
+  height?: number;
+  fps?: number;
+  stream_url?: string;
+}
+
+export interface StreamStoppedMessage {
+  type: 'stream.stopped';
+  request_id?: string;
+  session_id?: string;
+  message?: string;
+}
+
+export interface StreamErrorMessage {
+  type: 'stream.error';
+  request_id?: string;
+  session_id?: string;
+  message: string;
+}
+
+export interface StreamOptionsMessage extends StreamOptions {
+  type: 'stream.options';
+  request_id?: string;
+  session_id?: string;
+}
+
+export interface StreamWarningMessage {
+  type: 'stream.warning';
+  request_id?: string;
+  session_id?: string;
+  message: string;
+}
+
+export interface AvailableStreamsMessage {
+  type: 'available_streams';
+  request_id?: string;
+  // Preset name -> RTSP URL
+  streams: Record<string, string>;
+}
+
+export interface PongMessage {
+  type: 'pong';
+  request_id?: string;
+  timestamp?: number;
+}
+
+export type InboundMessage =
+  | StreamFrameMessage
+  | StreamStartingMessage
+  | StreamStartedMessage
+  | StreamStoppedMessage
+  | StreamErrorMessage
+  | StreamWarningMessage
+  | StreamOptionsMessage
+  | AvailableStreamsMessage
+  | PongMessage;
+
+export type InboundMessageType = InboundMessage['type'];
+
+// Messages that belong to one stream session and are routed by `session_id`
+export type SessionMessage =
+  | StreamFrameMessage
+  | StreamStartingMessage
+  | StreamStartedMessage
+  | StreamStoppedMessage
+  | StreamErrorMessage
+  | StreamWarningMessage
+  | StreamOptionsMessage;
+
+export type SessionMessageType = SessionMessage['type'];
+
+// Outbound actions (client -> server)
+
+// Options passed with the start apply from the first frame
+export interface StartStreamAction extends StreamOptions {
+  action: 'start_stream';
+  request_id?: string;
+  session_id: string;
+  rtsp_url: string;
+  transport?: FrameTransport;
+}
+
+export interface StopStreamAction {
+  action: 'stop_stream';
+  request_id?: string;
+  session_id: string;
+}
+
+export interface SetStreamOptionsAction extends StreamOptions {
+  action: 'set_stream_options';
+  request_id?: string;
+  session_id: string;
+}
+
+export interface PingAction {
+  action: 'ping';
+  request_id?: string;
+}
+
+export interface GetAvailableStreamsAction {
+  action: 'get_available_streams';
+  request_id?: string;
+}
+
+export type OutboundMessage =
+  | StartStreamAction
+  | StopStreamAction
+  | SetStreamOptionsAction
+  | PingAction
+  | GetAvailableStreamsAction;
+
+export type OutboundAction = OutboundMessage['action'];
+
+// Fields of an action other than its name and correlation id
+export type ActionPayload<A extends OutboundAction> = Omit<Extract<OutboundMessage, { action: A }>, 'action' | 'request_id'>;
+
+// The reply that settles a request for each action
+export interface SocketResponseMap {
+  start_stream: StreamStartedMessage;
+  stop_stream: StreamStoppedMessage;
+  set_stream_options: StreamOptionsMessage;
+  ping: PongMessage;
+  get_available_streams: AvailableStreamsMessage;
+}
+
+export interface RequestOptions {
+  timeoutMs?: number;
+}
+
+// The part of the WebSocket API the socket service relies on, so something else can stand in for it
+export interface SocketTransport {
+  readonly readyState: number;
+  binaryType: BinaryType;
+  onopen: ((event: Event) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  send(data: string | ArrayBufferLike | Blob | ArrayBufferView): void;
+  close(code?: number, reason?: string): void;
+}
+
+export type SocketTransportFactory = (url: string) => SocketTransport;
+
+// Backoff between reconnect attempts: baseDelayMs * factor^(attempt - 1), capped at maxDelayMs
+export interface ReconnectPolicy {
+  baseDelayMs: number;
+  factor: number;
+  maxDelayMs: number;
+  // Random spread applied to each delay, as a fraction of it (0.2 = ±20%)
+  jitter: number;
+  maxAttempts: number | 'forever';
+}
+
+// How the socket token is presented on the handshake
+export type SocketAuthMode = 'query' | 'subprotocol' | 'off';
+
+export interface SocketToken {
+  token: string;
+  // Epoch milliseconds
+  issuedAt: number;
+  expiresAt: number;
+}
+
+// Recorded socket traffic, saved by the recorder and fed back by the replay transport
+
+export interface CaptureEntry {
+  // Milliseconds since the recording started
+  t: number;
+  direction: 'in' | 'out';
+  // JSON messages are kept as sent; binary frames are base64 encoded
+  format: 'text' | 'binary';
+  data: string;
+}
+
+export interface SocketCapture {
+  version: 1;
+  // Epoch milliseconds
+  startedAt: number;
+  wsUrl: string;
+  // Minimum time between two recorded frames of one session, 0 when every frame was kept
+  frameIntervalMs: number;
+  entries: CaptureEntry[];
+}
+
+export interface RecordingOptions {
+  frameIntervalMs?: number;
+  // Frames of sessions this returns true for are left out, e.g. streams with privacy masks
+  withholdFrames?: (sessionId: string) => boolean;
+}
+
+export interface ReplayOptions {
+  // 1 plays at recorded speed, 4 four times as fast
+  speed?: number;
+}
+
+// Events emitted by the socket service
+
+export interface SocketErrorEvent {
+  // 'connection' errors affect every stream, 'protocol' errors only reject one message,
+  // 'auth' errors stop reconnecting until the user signs in again
+  kind: 'connection' | 'protocol' | 'auth';
+  message: string;
+  raw?: unknown;
+}
+
+// The backend refused the connection's credentials
+export interface AuthRequiredEvent {
+  code: number;
+  reason: string;
+}
+
+export interface ReconnectingEvent {
+  attempt: number;
+  maxAttempts: number | 'forever';
+  // Epoch milliseconds
+  nextAttemptAt: number;
+}
+
+export interface ReconnectStoppedEvent {
+  attempts: number;
+  // Out of attempts, or the user gave up
+  reason: 'exhausted' | 'cancelled';
+}
+
+export type SocketEventMap = {
+  open: undefined;
+  close: CloseEvent;
+  error: SocketErrorEvent;
+  'auth.required': AuthRequiredEvent;
+  reconnecting: ReconnectingEvent;
+  'reconnect.stopped': ReconnectStoppedEvent;
+  // Every message that went out on the socket, after queueing
+  sent: OutboundMessage | string;
+  message: InboundMessage;
+} & {
+  [K in InboundMessageType]: Extract<InboundMessage, { type: K }>;
+};
+
+export type SocketEventType = keyof SocketEventMap;
+
+export type SocketListener<K extends SocketEventType> = (data: SocketEventMap[K]) => void;
@@ -7,6 +7,20 @@ export interface Stream {
   created_at?: string;
   updated_at?: string;
   isLocal?: boolean;
+  // Areas covered in everything shown or saved from the stream; the backend stores them as given
+  privacy_masks?: PrivacyMask[];
+}
+
+// Solid black, or so blurred nothing can be read
+export type PrivacyMaskStyle = 'fill' | 'blur';
+
+export interface PrivacyMask {
+  id: string;
+  // How it was drawn; both are stored as their corners
+  shape: 'rect' | 'polygon';
+  style: PrivacyMaskStyle;
+  // Corners as fractions of the frame, 0..1 from the top left
+  points: [number, number][];
 }
 
 export interface StreamResponse {
@@ -19,11 +33,31 @@ export interface SingleStreamResponse {
   data: Stream;
 }
 
-export type StreamStatus = 'idle' | 'loading' | 'playing' | 'error' | 'stopped';
+export type NewStream = Omit<Stream, 'id' | 'created_at' | 'updated_at'>;
+
+// Where the stream list lives: the REST API, or the browser in demo mode
+export interface StreamRepository {
+  list(): Promise<Stream[]>;
+  listDefaults(): Promise<Stream[]>;
+  get(id: string | number): Promise<Stream>;
+  create(stream: NewStream): Promise<Stream>;
+  update(id: string | number, stream: Partial<Stream>): Promise<Stream>;
+  remove(id: string | number): Promise<void>;
+}
+
+// Lifecycle of a stream session, see services/streamSession.ts for the allowed transitions
+export type StreamStatus = 'idle' | 'connecting' | 'starting' | 'playing' | 'stalled' | 'error' | 'stopped';
+
+// Raw JPEG bytes when frames arrive over the binary transport,
+// a base64 string on the JSON fallback
+export type FrameData = Uint8Array | string;
+
+export interface StreamFrame {
+  sessionId?: string;
+  timestamp?: number;
+  sequence?: number;
+  data: FrameData;
+  receivedAt: number;
+}
 
-export interface StreamState {
-  status: StreamStatus;
-  error?: string;
-  wsUrl?: string;
-  rtspUrl?: string;
-} 
\ No newline at end of file
+export type FrameTransport = 'binary' | 'json';
@@ -0,0 +1,24 @@
+let audioContext: AudioContext | null = null;
+
+/**
+ * Two short beeps. Browsers only allow audio after the user has interacted with the page,
+ * before that this stays silent.
+ */
+export function playAlertSound(): void {
+  try {
+    const context = (audioContext ??= new AudioContext());
+    const startAt = context.currentTime;
+    [0, 0.2].forEach((offset) => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.frequency.value = 880;
+      gain.gain.setValueAtTime(0.2, startAt + offset);
+      gain.gain.exponentialRampToValueAtTime(0.001, startAt + offset + 0.15);
+      oscillator.connect(gain).connect(context.destination);
+      oscillator.start(startAt + offset);
+      oscillator.stop(startAt + offset + 0.15);
+    });
+  } catch (err) {
+    console.warn('Could not play the alert sound:', err);
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * Saves a blob through the browser's download prompt
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function downloadJson(data: unknown, filename: string): void {
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), filename);
+}
+
+/**
+ * A time that is safe to use in a file name
+ */
+export const fileTimestamp = (time: number): string => new Date(time).toISOString().replace(/[:.]/g, '-');
@@ -0,0 +1,137 @@
+import type { FrameData, StreamFrame } from '../types/stream';
+
+/**
+ * Binary frame layout (all integers big-endian):
+ *
+ *   u8   version (currently 1)
+ *   u8   session id length N
+ *   N    session id (UTF-8)
+ *   f64  capture timestamp in ms since epoch
+ *   u32  frame sequence number
+ *   ...  JPEG bytes
+ */
+export const BINARY_FRAME_VERSION = 1;
+
+const FIXED_HEADER_BYTES = 2 + 8 + 4;
+
+const textDecoder = new TextDecoder();
+const textEncoder = new TextEncoder();
+
+/**
+ * Parses a binary frame message. Returns null when the buffer is not a frame we understand.
+ */
+export function decodeBinaryFrame(buffer: ArrayBuffer): StreamFrame | null {
+  if (buffer.byteLength < FIXED_HEADER_BYTES) return null;
+
+  const view = new DataView(buffer);
+  const version = view.getUint8(0);
+  if (version !== BINARY_FRAME_VERSION) return null;
+
+  const sessionIdLength = view.getUint8(1);
+  const headerLength = FIXED_HEADER_BYTES + sessionIdLength;
+  if (buffer.byteLength <= headerLength) return null;
+
+  const sessionId = textDecoder.decode(new Uint8Array(buffer, 2, sessionIdLength));
+  const timestamp = view.getFloat64(2 + sessionIdLength);
+  const sequence = view.getUint32(2 + sessionIdLength + 8);
+
+  return {
+    sessionId: sessionId || undefined,
+    timestamp,
+    sequence,
+    // A view into the received buffer, so the JPEG bytes are never copied
+    data: new Uint8Array(buffer, headerLength),
+    receivedAt: Date.now(),
+  };
+}
+
+/**
+ * Builds a binary frame message, the inverse of decodeBinaryFrame
+ */
+export function encodeBinaryFrame(frame: {
+  sessionId?: string;
+  timestamp?: number;
+  sequence?: number;
+  data: Uint8Array;
+}): ArrayBuffer {
+  const sessionId = textEncoder.encode(frame.sessionId ?? '');
+  if (sessionId.byteLength > 255) {
+    throw new Error('Session id is too long for a binary frame header');
+  }
+
+  const headerLength = FIXED_HEADER_BYTES + sessionId.byteLength;
+  const buffer = new ArrayBuffer(headerLength + frame.data.byteLength);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  view.setUint8(0, BINARY_FRAME_VERSION);
+  view.setUint8(1, sessionId.byteLength);
+  bytes.set(sessionId, 2);
+  view.setFloat64(2 + sessionId.byteLength, frame.timestamp ?? Date.now());
+  view.setUint32(2 + sessionId.byteLength + 8, frame.sequence ?? 0);
+  bytes.set(frame.data, headerLength);
+  return buffer;
+}
+
+/**
+ * Size of the encoded image carried by a frame, in bytes
+ */
+export function frameByteLength(frame: StreamFrame): number {
+  if (typeof frame.data === 'string') {
+    // Every 4 base64 characters carry 3 bytes
+    return Math.floor(frame.data.length * 3 / 4);
+  }
+  return frame.data.byteLength;
+}
+
+/**
+ * Normalizes a `stream.frame` message from either transport into a StreamFrame
+ */
+export function frameFromMessage(message: {
+  session_id?: string;
+  timestamp?: number;
+  sequence?: number;
+  frame: FrameData;
+}): StreamFrame {
+  return {
+    sessionId: message.session_id,
+    timestamp: message.timestamp,
+    sequence: message.sequence,
+    data: message.frame,
+    receivedAt: Date.now(),
+  };
+}
+
+// Bytes per String.fromCharCode call, well below the engines' argument limits
+const BASE64_CHUNK = 0x8000;
+
+/**
+ * Base64 encodes raw bytes, e.g. to store a binary frame in JSON
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK));
+  }
+  return btoa(binary);
+}
+
+/**
+ * The inverse of bytesToBase64
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * The frame's JPEG as a Blob, e.g. for createImageBitmap
+ */
+export function frameToBlob(frame: StreamFrame): Blob {
+  const bytes = typeof frame.data === 'string' ? base64ToBytes(frame.data) : frame.data;
+  return new Blob([bytes], { type: 'image/jpeg' });
+}
@@ -0,0 +1,110 @@
+import type { MotionSettings, MotionZone, ZonePoint } from '../types/motion';
+
+export const DEFAULT_MOTION_SETTINGS: MotionSettings = {
+  enabled: false,
+  sensitivity: 0.5,
+  zones: [],
+  alerts: { toast: true, sound: false, select: false },
+};
+
+// Frames are compared at this width; plenty for motion and cheap enough to do per frame
+const ANALYSIS_WIDTH = 64;
+// Brightness change (0..255) below which a pixel counts as noise
+const PIXEL_THRESHOLD = 24;
+// Share of the watched area that has to change at the lowest and highest sensitivity
+const LEAST_SENSITIVE_LEVEL = 0.2;
+const MOST_SENSITIVE_LEVEL = 0.002;
+
+// Motion level from which a change counts as motion
+export const triggerLevel = (sensitivity: number): number =>
+  LEAST_SENSITIVE_LEVEL + (MOST_SENSITIVE_LEVEL - LEAST_SENSITIVE_LEVEL) * Math.min(1, Math.max(0, sensitivity));
+
+// Even-odd rule, in the same coordinates as the polygon
+export const pointInPolygon = ([x, y]: ZonePoint, polygon: ZonePoint[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+// Which pixels of a width × height grid are watched
+const zoneMask = (width: number, height: number, zones: MotionZone[]): Uint8Array => {
+  const includes = zones.filter((zone) => zone.kind === 'include' && zone.points.length >= 3);
+  const excludes = zones.filter((zone) => zone.kind === 'exclude' && zone.points.length >= 3);
+  const mask = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const point: ZonePoint = [(x + 0.5) / width, (y + 0.5) / height];
+      const included = includes.length === 0 || includes.some((zone) => pointInPolygon(point, zone.points));
+      mask[y * width + x] = included && !excludes.some((zone) => pointInPolygon(point, zone.points)) ? 1 : 0;
+    }
+  }
+  return mask;
+};
+
+// The parts of a 2D context the analyzer needs; both canvas kinds have them
+export interface AnalysisContext {
+  drawImage(image: CanvasImageSource, dx: number, dy: number, dw: number, dh: number): void;
+  getImageData(sx: number, sy: number, sw: number, sh: number): ImageData;
+}
+
+/**
+ * Compares each decoded frame with the previous one, downsampled and in greyscale, and
+ * reports the share of the watched area that changed. Runs wherever frames are decoded:
+ * in the renderer worker, or on the main thread without one.
+ */
+export class MotionAnalyzer {
+  private readonly createContext: (width: number, height: number) => AnalysisContext | null;
+  private zones: MotionZone[] = [];
+  private context: AnalysisContext | null = null;
+  private width = 0;
+  private height = 0;
+  private mask: Uint8Array | null = null;
+  private previous: Uint8Array | null = null;
+
+  constructor(createContext: (width: number, height: number) => AnalysisContext | null) {
+    this.createContext = createContext;
+  }
+
+  setZones(zones: MotionZone[]): void {
+    this.zones = zones;
+    this.mask = null;
+  }
+
+  // 0..1; the first frame, and the first after a size change, only sets the baseline
+  analyze(source: CanvasImageSource, sourceWidth: number, sourceHeight: number): number {
+    const height = Math.max(1, Math.round((ANALYSIS_WIDTH * sourceHeight) / sourceWidth));
+    if (!this.context || height !== this.height) {
+      this.width = ANALYSIS_WIDTH;
+      this.height = height;
+      this.context = this.createContext(this.width, this.height);
+      this.mask = null;
+      this.previous = null;
+    }
+    if (!this.context) return 0;
+    this.mask ??= zoneMask(this.width, this.height, this.zones);
+
+    this.context.drawImage(source, 0, 0, this.width, this.height);
+    const { data } = this.context.getImageData(0, 0, this.width, this.height);
+    const luma = new Uint8Array(this.width * this.height);
+    for (let i = 0; i < luma.length; i++) {
+      luma[i] = (data[i * 4] * 77 + data[i * 4 + 1] * 150 + data[i * 4 + 2] * 29) >> 8;
+    }
+
+    const previous = this.previous;
+    this.previous = luma;
+    if (!previous) return 0;
+
+    let watched = 0;
+    let changed = 0;
+    for (let i = 0; i < luma.length; i++) {
+      if (!this.mask[i]) continue;
+      watched += 1;
+      if (Math.abs(luma[i] - previous[i]) > PIXEL_THRESHOLD) changed += 1;
+    }
+    return watched > 0 ? changed / watched : 0;
+  }
+}
@@ -0,0 +1,96 @@
+import type { PrivacyMask } from '../types/stream';
+
+// Blurred areas are drawn this many times smaller and scaled back up
+const BLUR_DOWNSCALE = 24;
+
+// The parts of a 2D context the masker needs; both canvas kinds have them
+export interface MaskContext {
+  fillStyle: string | CanvasGradient | CanvasPattern;
+  imageSmoothingEnabled: boolean;
+  save(): void;
+  restore(): void;
+  beginPath(): void;
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  closePath(): void;
+  clip(): void;
+  fill(): void;
+  drawImage(image: CanvasImageSource, dx: number, dy: number, dw: number, dh: number): void;
+  drawImage(image: CanvasImageSource, sx: number, sy: number, sw: number, sh: number, dx: number, dy: number, dw: number, dh: number): void;
+}
+
+export interface MaskScratch {
+  canvas: CanvasImageSource;
+  context: MaskContext;
+}
+
+/**
+ * Covers a stream's privacy masks on a frame right after it was drawn, before anything
+ * else gets to see the pixels. Used by every path that draws frames. Without a scratch
+ * canvas for blurring, blurred masks are filled instead, so nothing is ever left uncovered.
+ */
+export class PrivacyMasker {
+  private readonly createScratch: (width: number, height: number) => MaskScratch | null;
+  private masks: PrivacyMask[] = [];
+  private scratch: MaskScratch | null = null;
+  private scratchWidth = 0;
+  private scratchHeight = 0;
+
+  constructor(createScratch: (width: number, height: number) => MaskScratch | null) {
+    this.createScratch = createScratch;
+  }
+
+  get active(): boolean {
+    return this.masks.length > 0;
+  }
+
+  setMasks(masks: PrivacyMask[]): void {
+    this.masks = masks.filter((mask) => mask.points.length >= 3);
+  }
+
+  // `source` was just drawn into the width × height rectangle at x, y
+  apply(ctx: MaskContext, source: CanvasImageSource, x: number, y: number, width: number, height: number): void {
+    if (this.masks.length === 0 || width <= 0 || height <= 0) return;
+    const blurred = this.masks.some((mask) => mask.style === 'blur') ? this.shrink(source, width, height) : null;
+
+    for (const mask of this.masks) {
+      ctx.save();
+      ctx.beginPath();
+      mask.points.forEach(([px, py], index) => {
+        if (index === 0) ctx.moveTo(x + px * width, y + py * height);
+        else ctx.lineTo(x + px * width, y + py * height);
+      });
+      ctx.closePath();
+      if (mask.style === 'blur' && blurred) {
+        ctx.clip();
+        ctx.imageSmoothingEnabled = true;
+        ctx.drawImage(blurred.canvas, 0, 0, this.scratchWidth, this.scratchHeight, x, y, width, height);
+      } else {
+        ctx.fillStyle = 'black';
+        ctx.fill();
+      }
+      ctx.restore();
+    }
+  }
+
+  private shrink(source: CanvasImageSource, width: number, height: number): MaskScratch | null {
+    const scratchWidth = Math.max(1, Math.ceil(width / BLUR_DOWNSCALE));
+    const scratchHeight = Math.max(1, Math.ceil(height / BLUR_DOWNSCALE));
+    if (!this.scratch || scratchWidth !== this.scratchWidth || scratchHeight !== this.scratchHeight) {
+      this.scratch = this.createScratch(scratchWidth, scratchHeight);
+      this.scratchWidth = scratchWidth;
+      this.scratchHeight = scratchHeight;
+    }
+    this.scratch?.context.drawImage(source, 0, 0, scratchWidth, scratchHeight);
+    return this.scratch;
+  }
+}
+
+// Scratch canvases for code that runs on the main thread
+export const createDomScratch = (width: number, height: number): MaskScratch | null => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  return context ? { canvas, context } : null;
+};
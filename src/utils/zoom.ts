@@ -0,0 +1,44 @@
+import type { ZoomState } from '../types/renderer';
+
+export const MAX_ZOOM = 8;
+export const NO_ZOOM: ZoomState = { scale: 1, x: 0.5, y: 0.5 };
+
+/**
+ * Limits the scale and keeps the visible region inside the player
+ */
+export function clampZoom({ scale, x, y }: ZoomState): ZoomState {
+  const clampedScale = Math.min(MAX_ZOOM, Math.max(1, scale));
+  const half = 0.5 / clampedScale;
+  return {
+    scale: clampedScale,
+    x: Math.min(1 - half, Math.max(half, x)),
+    y: Math.min(1 - half, Math.max(half, y)),
+  };
+}
+
+/**
+ * Zooms by `factor` around a point given as fractions of the player, which stays where it is on screen
+ */
+export function zoomAt(zoom: ZoomState, factor: number, u: number, v: number): ZoomState {
+  const scale = Math.min(MAX_ZOOM, Math.max(1, zoom.scale * factor));
+  // The point under (u, v) before and after has to be the same
+  const pointX = zoom.x + (u - 0.5) / zoom.scale;
+  const pointY = zoom.y + (v - 0.5) / zoom.scale;
+  return clampZoom({ scale, x: pointX - (u - 0.5) / scale, y: pointY - (v - 0.5) / scale });
+}
+
+/**
+ * Drags the picture by a distance given as fractions of the player
+ */
+export function panBy(zoom: ZoomState, dx: number, dy: number): ZoomState {
+  return clampZoom({ ...zoom, x: zoom.x - dx / zoom.scale, y: zoom.y - dy / zoom.scale });
+}
+
+/**
+ * CSS transform for the zoomed content, with `transform-origin: 0 0`
+ */
+export function zoomTransform({ scale, x, y }: ZoomState): string {
+  return `translate(${(0.5 - x * scale) * 100}%, ${(0.5 - y * scale) * 100}%) scale(${scale})`;
+}
+
+export const isZoomed = (zoom: ZoomState): boolean => zoom.scale > 1;
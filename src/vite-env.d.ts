@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_URL?: string;
+  readonly VITE_WS_URL?: string;
+  readonly VITE_FRAME_TRANSPORT?: 'binary' | 'json';
+  readonly VITE_SOCKET_AUTH?: 'query' | 'subprotocol' | 'off';
+  readonly VITE_DEMO_MODE?: string;
+  readonly VITE_SHARE_CONNECTION?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,125 @@
+import type { RendererRequest, RendererResponse } from '../types/renderer';
+import { base64ToBytes } from '../utils/frameCodec';
+import { MotionAnalyzer } from '../utils/motion';
+import { PrivacyMasker } from '../utils/privacyMask';
+
+// Stats go back in batches, the main thread has no use for a message per frame
+const STATS_INTERVAL_MS = 250;
+
+let context: OffscreenCanvasRenderingContext2D | null = null;
+let headless = false;
+let analyzer: MotionAnalyzer | null = null;
+const masker = new PrivacyMasker((scratchWidth, scratchHeight) => {
+  const canvas = new OffscreenCanvas(scratchWidth, scratchHeight);
+  const scratchContext = canvas.getContext('2d');
+  return scratchContext ? { canvas, context: scratchContext } : null;
+});
+// Only one frame is decoded at a time; frames arriving meanwhile replace each other
+let decoding = false;
+let queued: ArrayBuffer | string | null = null;
+
+let rendered = 0;
+let dropped = 0;
+let decodeMsTotal = 0;
+let width = 0;
+let height = 0;
+let error: string | null = null;
+let reportedError: string | null = null;
+let motion: number | null = null;
+
+const toBlob = (data: ArrayBuffer | string): Blob =>
+  new Blob([typeof data === 'string' ? base64ToBytes(data) : data], { type: 'image/jpeg' });
+
+const createAnalysisContext = (analysisWidth: number, analysisHeight: number) =>
+  new OffscreenCanvas(analysisWidth, analysisHeight).getContext('2d', { willReadFrequently: true });
+
+const draw = async (data: ArrayBuffer | string): Promise<void> => {
+  if (!context && !headless) return;
+  const startedAt = performance.now();
+  const bitmap = await createImageBitmap(toBlob(data));
+  try {
+    if (context) {
+      const canvas = context.canvas;
+      if (canvas.width !== bitmap.width) canvas.width = bitmap.width;
+      if (canvas.height !== bitmap.height) canvas.height = bitmap.height;
+      context.drawImage(bitmap, 0, 0);
+      masker.apply(context, bitmap, 0, 0, bitmap.width, bitmap.height);
+    }
+    if (analyzer) motion = Math.max(motion ?? 0, analyzer.analyze(bitmap, bitmap.width, bitmap.height));
+    width = bitmap.width;
+    height = bitmap.height;
+  } finally {
+    bitmap.close();
+  }
+  rendered += 1;
+  decodeMsTotal += performance.now() - startedAt;
+  error = null;
+};
+
+const renderQueued = async (): Promise<void> => {
+  decoding = true;
+  while (queued !== null) {
+    const next = queued;
+    queued = null;
+    try {
+      await draw(next);
+    } catch (err) {
+      console.error('Frame renderer: failed to decode frame', err);
+      error = 'Failed to load video frame. Data might be corrupted or invalid.';
+    }
+  }
+  decoding = false;
+};
+
+const reportStats = () => {
+  if (rendered === 0 && dropped === 0 && error === reportedError) return;
+  const stats: RendererResponse = {
+    type: 'stats',
+    rendered,
+    dropped,
+    decodeMs: rendered > 0 ? decodeMsTotal / rendered : 0,
+    width,
+    height,
+    error,
+    motion,
+  };
+  self.postMessage(stats);
+  motion = analyzer ? 0 : null;
+  rendered = 0;
+  dropped = 0;
+  decodeMsTotal = 0;
+  reportedError = error;
+};
+
+self.onmessage = (event: MessageEvent<RendererRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'init':
+      if (request.canvas) {
+        context = request.canvas.getContext('2d');
+        if (!context) error = 'Canvas rendering error.';
+      } else {
+        headless = true;
+      }
+      setInterval(reportStats, STATS_INTERVAL_MS);
+      break;
+    case 'frame':
+      if (queued !== null) dropped += 1;
+      queued = request.data;
+      if (!decoding) renderQueued();
+      break;
+    case 'masks':
+      masker.setMasks(request.masks);
+      break;
+    case 'motion':
+      if (request.zones) {
+        analyzer ??= new MotionAnalyzer(createAnalysisContext);
+        analyzer.setZones(request.zones);
+        motion ??= 0;
+      } else {
+        analyzer = null;
+        motion = null;
+      }
+      break;
+  }
+};